@@ -4,46 +4,101 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { SessionState } from './sessionState';
+import { CredentialStore } from './credentials';
+import { ASKPASS_TOKEN_VAR } from './processes';
+
+/**
+ * Shared by the AskPass managers of syncs started together (e.g. a group sync):
+ * prompts are shown one at a time, and an answer is reused for the same prompt
+ * from another server, so a key passphrase is only asked once.
+ */
+export class AskPassSession {
+    private queue: Promise<unknown> = Promise.resolve();
+    public answers = new Map<string, string>();
+
+    public serialize<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+}
 
 export class AskPassManager {
     private server: http.Server | undefined;
     private scriptPath: string | undefined;
     private clientScriptPath: string | undefined;
+    // Prompts already answered, per process token
+    private answered = new Set<string>();
+    private interactive = true;
 
-    constructor(private sessionState: SessionState) { }
+    constructor(
+        private sessionState: SessionState,
+        private credentials: CredentialStore,
+        private serverAlias: string,
+        private shared = new AskPassSession()
+    ) { }
 
-    public async prepare(): Promise<{ [key: string]: string }> {
+    /**
+     * Starts the AskPass server. When not interactive (background checks), only cached and
+     * stored answers are used and prompts nobody answered yet fail instead of asking.
+     */
+    public async prepare(interactive = true): Promise<{ [key: string]: string }> {
+        this.interactive = interactive;
         return new Promise((resolve, reject) => {
             this.server = http.createServer(async (req, res) => {
                 let body = '';
                 req.on('data', chunk => body += chunk.toString());
-                req.on('end', async () => {
+                req.on('end', () => this.shared.serialize(async () => {
                     const promptText = body.trim() || 'Password required:';
-                    
-                    // Check cache
-                    const cached = this.sessionState.getPassword(promptText);
-                    if (cached) {
-                        res.writeHead(200);
-                        res.end(cached);
+
+                    // ssh asks the same prompt again from the same process when the answer was rejected.
+                    // Drop the cached answer then instead of failing with it again.
+                    const caller = req.headers['x-wwsync-token'];
+                    const attemptKey = `${caller}\n${promptText}`;
+                    const rejected = !!caller && this.answered.has(attemptKey);
+                    this.answered.add(attemptKey);
+
+                    if (rejected) {
+                        this.sessionState.deletePassword(this.serverAlias, promptText);
+                        this.shared.answers.delete(promptText);
+                        await this.credentials.delete(this.serverAlias, promptText);
+                    } else {
+                        // Check cache
+                        const cached = this.sessionState.getPassword(this.serverAlias, promptText)
+                            ?? this.shared.answers.get(promptText)
+                            ?? await this.credentials.get(this.serverAlias, promptText);
+                        if (cached) {
+                            this.sessionState.setPassword(this.serverAlias, promptText, cached);
+                            res.writeHead(200);
+                            res.end(cached);
+                            return;
+                        }
+                    }
+
+                    if (!this.interactive) {
+                        res.writeHead(404);
+                        res.end();
                         return;
                     }
 
                     // Ask user
                     const password = await vscode.window.showInputBox({
-                        prompt: promptText,
+                        prompt: rejected ? `${promptText} (the previous answer was rejected)` : promptText,
                         password: true,
                         ignoreFocusOut: true
                     });
 
                     if (password !== undefined) {
-                        this.sessionState.setPassword(promptText, password);
+                        this.sessionState.setPassword(this.serverAlias, promptText, password);
+                        this.shared.answers.set(promptText, password);
+                        await this.credentials.store(this.serverAlias, promptText, password);
                         res.writeHead(200);
                         res.end(password);
                     } else {
                         res.writeHead(404); // Cancel or Error
                         res.end();
                     }
-                });
+                }));
             });
 
             this.server.listen(0, '127.0.0.1', () => {
@@ -71,7 +126,9 @@ const prompt = process.argv.slice(2).join(' ') || 'Password:';
 const req = http.request({
     hostname: '127.0.0.1',
     port: ${port},
-    method: 'POST'
+    method: 'POST',
+    // Identifies the process asking: each spawned process has its own token
+    headers: { 'X-WWSync-Token': process.env.${ASKPASS_TOKEN_VAR} || '' }
 }, (res) => {
     res.pipe(process.stdout);
 });
@@ -92,7 +149,7 @@ req.end();
             fs.writeFileSync(this.scriptPath, batContent);
         } else {
             // Unix shell script (Linux, Mac, WSL)
-            const shContent = `#!/bin/sh\n"${nodeExe}" "${this.clientScriptPath}" "$@"`;
+            const shContent = `#!/bin/sh\nexec "${nodeExe}" "${this.clientScriptPath}" "$@"`;
             this.scriptPath = path.join(tmpDir, `askpass-${rand}.sh`);
             fs.writeFileSync(this.scriptPath, shContent, { mode: 0o755 });
         }
@@ -101,7 +158,8 @@ req.end();
         return {
             'SSH_ASKPASS': this.scriptPath,
             'SSH_ASKPASS_REQUIRE': 'force', // For OpenSSH 8.4+
-            'DISPLAY': 'dummy:0' // Trigger ASKPASS logic
+            'DISPLAY': 'dummy:0', // Trigger ASKPASS logic
+            [ASKPASS_TOKEN_VAR]: rand // Replaced for each process spawned with this environment
         };
     }
 
@@ -119,3 +177,29 @@ req.end();
     }
 }
 
+
+/**
+ * Runs `task` with the environment of an AskPass manager for the server and stops the manager
+ * when the task is done. If AskPass cannot be started, the task runs without it (ssh then uses
+ * its own prompts). See `AskPassManager.prepare` for `interactive`.
+ */
+export async function withAskPass<T>(
+    sessionState: SessionState,
+    credentials: CredentialStore,
+    serverAlias: string,
+    task: (env: NodeJS.ProcessEnv | undefined) => Thenable<T>,
+    options: { interactive?: boolean; session?: AskPassSession } = {}
+): Promise<T> {
+    const askPassManager = new AskPassManager(sessionState, credentials, serverAlias, options.session);
+    try {
+        let env: NodeJS.ProcessEnv | undefined;
+        try {
+            env = await askPassManager.prepare(options.interactive);
+        } catch (err) {
+            console.error('Failed to prepare AskPass manager', err);
+        }
+        return await task(env);
+    } finally {
+        askPassManager.cleanup();
+    }
+}
@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadConfig, Mapping, resolveMapping } from './config';
+import { runSafeSync } from './rsync';
+import { SessionState } from './sessionState';
+import { withAskPass } from './askPass';
+import { CredentialStore } from './credentials';
+import { SyncHistory } from './history';
+import { SyncJob } from './syncJob';
+import { SshTarget } from './ssh';
+import { SyncJobQueue } from './jobQueue';
+
+interface AutoSyncTarget {
+    serverAlias: string;
+    server: SshTarget;
+    mapping: Mapping;
+    watcher: vscode.FileSystemWatcher;
+    pending: Set<string>;
+    timer: NodeJS.Timeout | undefined;
+    running: boolean;
+}
+
+function globToRegExp(glob: string): RegExp {
+    const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]');
+    return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Cheap pre-filter so changes inside excluded folders (.git, node_modules, ...)
+ * don't trigger an rsync run at all. rsync still applies the real exclude rules.
+ */
+function isExcluded(relativePath: string, excludes: string[]): boolean {
+    const segments = relativePath.split('/');
+    return excludes.some(exc => {
+        const pattern = exc.replace(/^\/+|\/+$/g, '');
+        if (!pattern) {
+            return false;
+        }
+        const regex = globToRegExp(pattern);
+        if (pattern.includes('/')) {
+            return regex.test(relativePath) || relativePath.startsWith(pattern + '/');
+        }
+        return segments.some(segment => regex.test(segment));
+    });
+}
+
+export class AutoSyncManager implements vscode.Disposable {
+    private targets: Map<string, AutoSyncTarget> = new Map();
+
+    constructor(
+        private outputChannel: vscode.OutputChannel,
+        private sessionState: SessionState,
+        private credentials: CredentialStore,
+        private history: SyncHistory,
+        private jobQueue: SyncJobQueue
+    ) { }
+
+    public hasTargets(): boolean {
+        return this.targets.size > 0;
+    }
+
+    /**
+     * Re-reads the config and (re)creates watchers for all mappings with autoSync enabled.
+     */
+    public refresh() {
+        this.disposeTargets();
+
+        let config;
+        try {
+            config = loadConfig();
+        } catch (error: any) {
+            this.outputChannel.appendLine(`Auto sync disabled: ${error.message}`);
+            return;
+        }
+
+        for (const [serverAlias, serverConfig] of Object.entries(config.servers)) {
+            for (const mapping of serverConfig.mappings) {
+                if (!mapping.autoSync) {
+                    continue;
+                }
+
+                const key = `${serverAlias}:${mapping.local}`;
+                const watcher = vscode.workspace.createFileSystemWatcher(
+                    new vscode.RelativePattern(vscode.Uri.file(mapping.local), '**/*')
+                );
+
+                const target: AutoSyncTarget = {
+                    serverAlias,
+                    server: serverConfig,
+                    mapping: resolveMapping(serverConfig, mapping),
+                    watcher,
+                    pending: new Set(),
+                    timer: undefined,
+                    running: false
+                };
+
+                // Deletions are ignored on purpose: auto sync never removes remote files
+                watcher.onDidChange(uri => this.onFileChanged(target, uri));
+                watcher.onDidCreate(uri => this.onFileChanged(target, uri));
+
+                this.targets.set(key, target);
+            }
+        }
+    }
+
+    private onFileChanged(target: AutoSyncTarget, uri: vscode.Uri) {
+        if (this.sessionState.isAutoSyncPaused()) {
+            return;
+        }
+
+        const relativePath = path.relative(target.mapping.local, uri.fsPath).split(path.sep).join('/');
+        if (!relativePath || relativePath.startsWith('..') || isExcluded(relativePath, target.mapping.excludes)) {
+            return;
+        }
+
+        target.pending.add(relativePath);
+        this.schedule(target);
+    }
+
+    private schedule(target: AutoSyncTarget) {
+        if (target.timer) {
+            clearTimeout(target.timer);
+        }
+        const delay = vscode.workspace.getConfiguration('wwsync').get<number>('autoSyncDelay', 1000);
+        target.timer = setTimeout(() => {
+            target.timer = undefined;
+            this.flush(target);
+        }, delay);
+    }
+
+    private async flush(target: AutoSyncTarget) {
+        // A sync for this mapping is still running - its completion picks up the pending changes
+        if (target.running || target.pending.size === 0 || this.sessionState.isAutoSyncPaused()) {
+            return;
+        }
+
+        // Only regular files: folders would be uploaded recursively
+        const files = Array.from(target.pending).filter(f => {
+            try {
+                return fs.statSync(path.join(target.mapping.local, f)).isFile();
+            } catch {
+                return false;
+            }
+        });
+        target.pending.clear();
+
+        if (files.length === 0) {
+            return;
+        }
+
+        target.running = true;
+        const job: SyncJob = {
+            command: 'autoSync',
+            serverAlias: target.serverAlias,
+            server: target.server,
+            mapping: target.mapping,
+            files
+        };
+        try {
+            // Waits for other syncs of this mapping (e.g. a manual Safe Sync) to finish first
+            await this.jobQueue.run(job, token => withAskPass(this.sessionState, this.credentials, target.serverAlias, env =>
+                vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Window,
+                    title: `WWSync: Auto Sync (${target.serverAlias})`
+                }, () => this.history.track(job, this.outputChannel, channel =>
+                    runSafeSync(channel, target.server, target.mapping, token, env, files), token
+                ))
+            ));
+        } catch (error: any) {
+            this.outputChannel.appendLine(`Auto sync failed: ${error.message}`);
+        } finally {
+            target.running = false;
+        }
+
+        // Changes that arrived while rsync was running
+        if (target.pending.size > 0) {
+            this.schedule(target);
+        }
+    }
+
+    private disposeTargets() {
+        for (const target of this.targets.values()) {
+            if (target.timer) {
+                clearTimeout(target.timer);
+            }
+            target.watcher.dispose();
+        }
+        this.targets.clear();
+    }
+
+    public dispose() {
+        this.disposeTargets();
+    }
+}
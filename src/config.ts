@@ -1,45 +1,343 @@
+import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import { validateConfigText, formatProblem } from './configValidation';
+
+/**
+ * Common rsync options. Set on a server they apply to all of its mappings;
+ * a mapping overrides single fields, `extraArgs` of both are combined.
+ */
+export interface RsyncOptions {
+    /** Compare files by checksum instead of size and modification time (servers with a skewed clock) */
+    checksum?: boolean;
+    /** Bandwidth limit in KiB/s, or with a unit suffix such as "1.5m" */
+    bwlimit?: number | string;
+    /** Permissions of uploaded files, e.g. "D755,F644" */
+    chmod?: string;
+    /** Owner of uploaded files, e.g. "www-data:www-data" */
+    chown?: string;
+    /** Keep replaced and deleted files on the receiving side with a suffix */
+    backup?: boolean;
+    /** Suffix for backups (rsync default "~") */
+    backupSuffix?: string;
+    /** Compress data in transit (default true); turn off on a fast LAN */
+    compress?: boolean;
+    /** Additional raw rsync arguments, checked against the ones WWSync manages itself */
+    extraArgs?: string[];
+}
+
+/**
+ * Remote snapshots taken by Full Sync (rsync --backup-dir).
+ */
+export interface SnapshotOptions {
+    /** Remote folder of the snapshots, absolute or relative to `remote` (default ".wwsync-snapshots") */
+    dir?: string;
+    /** Number of snapshots kept, older ones are removed (default 10) */
+    keep?: number;
+}
+
+/**
+ * A named command run in the mapping's remote folder ('WWSync: Run Command').
+ */
+export interface RemoteCommand {
+    name: string;
+    /** Shell command, run in `remote` */
+    command: string;
+    /** A dedicated terminal (default), or the WWSync output channel */
+    runIn?: 'terminal' | 'output';
+    /** Sync first and only run the command if the sync succeeded */
+    sync?: 'safe' | 'full';
+}
 
 export interface Mapping {
     local: string;
     remote: string;
     excludes: string[];
+    autoSync?: boolean;
+    useGitignore?: boolean;
+    rsyncOptions?: RsyncOptions;
+    /** Local commands run in `local` before an upload, e.g. a build step */
+    localPreSync?: string[];
+    /** Remote commands run in `remote` before an upload */
+    preSync?: string[];
+    /** Remote commands run in `remote` after a successful upload, e.g. a service restart */
+    postSync?: string[];
+    /** Keep the remote files each Full Sync replaces or deletes, so the sync can be rolled back */
+    snapshots?: boolean | SnapshotOptions;
+    /** Named commands run in `remote`, e.g. "tail logs" or "run tests" */
+    commands?: RemoteCommand[];
 }
 
 export interface ServerConfig {
-    host: string;
+    /** "local" syncs into a local folder (e.g. a mounted NAS) instead of over SSH (default "ssh") */
+    type?: 'ssh' | 'local';
+    /** SSH connection address; not used by local targets */
+    host?: string;
     shell?: string;
+    /** SSH port (ssh -p) */
+    port?: number;
+    /** Private key file (ssh -i), "~" is expanded */
+    identityFile?: string;
+    /** Jump host(s) to connect through (ssh -J), e.g. "user@bastion" */
+    proxyJump?: string;
+    /** Login user, unless `host` already contains one */
+    user?: string;
+    /** Extra ssh options as "Key=Value" (ssh -o), e.g. "StrictHostKeyChecking=accept-new" */
+    sshOptions?: string[];
+    rsyncOptions?: RsyncOptions;
     mappings: Mapping[];
 }
 
 export interface WWConfig {
     servers: { [key: string]: ServerConfig };
+    /** Named lists of server aliases, synced together by 'WWSync: Sync Group' */
+    groups?: { [name: string]: string[] };
 }
 
 const CONFIG_PATH = path.join(os.homedir(), '.wwsync');
 
+export const PROJECT_CONFIG_FILE = '.wwsync.json';
+
+// Servers, mappings and groups loaded from (or assigned to) a project config, keyed to that file.
+// Everything not in here belongs to the global ~/.wwsync.
+const projectOrigins = new WeakMap<ServerConfig | Mapping | string[], string>();
+
+export class ConfigError extends Error {
+    constructor(message: string, public filePath: string) {
+        super(message);
+    }
+}
+
+function readConfigFile(filePath: string): WWConfig | undefined {
+    if (!fs.existsSync(filePath)) {
+        return undefined;
+    }
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const { config, problems } = validateConfigText(content, filePath !== CONFIG_PATH);
+    if (!config) {
+        const first = problems.find(p => p.severity === 'error')!;
+        const more = problems.length > 1 ? ` (+${problems.length - 1} more)` : '';
+        throw new ConfigError(
+            `${path.basename(filePath)}: ${formatProblem(content, first)}${more} Run 'WWSync: Open Config' for details.`,
+            filePath
+        );
+    }
+    return config;
+}
+
+/**
+ * Project configs of the open workspace folders. They are ignored in an untrusted workspace:
+ * a cloned repository could otherwise enable auto sync to its own host or run its own hooks.
+ */
+function getProjectConfigPaths(): string[] {
+    if (!vscode.workspace.isTrusted) {
+        return [];
+    }
+    return (vscode.workspace.workspaceFolders ?? [])
+        .map(f => getProjectConfigPath(f.uri.fsPath))
+        .filter(p => fs.existsSync(p));
+}
+
+// Paths only differ in case on case-sensitive file systems (Linux)
+function samePath(a: string, b: string): boolean {
+    const ignoreCase = process.platform === 'win32' || process.platform === 'darwin';
+    const normalize = (p: string) => ignoreCase ? path.normalize(p).toLowerCase() : path.normalize(p);
+    return normalize(a) === normalize(b);
+}
+
+/**
+ * Loads ~/.wwsync merged with the `.wwsync.json` of every open workspace folder (trusted workspaces only).
+ *
+ * Precedence:
+ * - Servers are merged by alias. A server defined in ~/.wwsync is used as it is (host, user, port,
+ *   SSH and rsync options, type); only the project's mappings are added to it. This way personal
+ *   details like the user name in `user@host` can be overridden locally.
+ * - Mappings from both files are combined; for the same local folder the ~/.wwsync mapping wins.
+ * - Project `local` paths are relative to the workspace folder (default ".").
+ * - Groups are merged by name; a group in ~/.wwsync replaces the project group.
+ */
 export function loadConfig(): WWConfig {
-    if (!fs.existsSync(CONFIG_PATH)) {
-        // Return empty config instead of creating default file
-        const emptyConfig: WWConfig = {
-            servers: {}
-        };
-        // Do NOT saveConfig here.
-        return emptyConfig;
+    // Return empty config instead of creating default file
+    const config: WWConfig = readConfigFile(CONFIG_PATH) ?? { servers: {} };
+    // Do NOT saveConfig here.
+
+    for (const projectPath of getProjectConfigPaths()) {
+        const projectConfig = readConfigFile(projectPath);
+        const root = path.dirname(projectPath);
+
+        for (const [alias, projectServer] of Object.entries(projectConfig?.servers ?? {})) {
+            const mappings = (projectServer.mappings ?? []).map(m => {
+                const mapping: Mapping = {
+                    ...m,
+                    local: path.resolve(root, m.local || '.'),
+                    excludes: m.excludes ?? []
+                };
+                projectOrigins.set(mapping, projectPath);
+                return mapping;
+            });
+
+            const server = config.servers[alias];
+            if (!server) {
+                if (!projectServer.host && projectServer.type !== 'local') {
+                    // Shown as a warning on the server by the config diagnostics
+                    continue;
+                }
+                const newServer: ServerConfig = { ...projectServer, mappings };
+                projectOrigins.set(newServer, projectPath);
+                config.servers[alias] = newServer;
+                continue;
+            }
+
+            server.mappings = server.mappings ?? [];
+            for (const mapping of mappings) {
+                if (!server.mappings.some(m => samePath(m.local, mapping.local))) {
+                    server.mappings.push(mapping);
+                }
+            }
+        }
+
+        for (const [name, members] of Object.entries(projectConfig?.groups ?? {})) {
+            if (!config.groups?.[name]) {
+                const group = [...members];
+                projectOrigins.set(group, projectPath);
+                config.groups = { ...config.groups, [name]: group };
+            }
+        }
     }
 
+    return config;
+}
+
+export function saveConfig(config: WWConfig): void {
+    const globalConfig: WWConfig = { servers: {} };
+    const projectPaths = new Set(getProjectConfigPaths());
+
+    for (const [alias, server] of Object.entries(config.servers)) {
+        const serverOrigin = projectOrigins.get(server);
+        if (serverOrigin) {
+            projectPaths.add(serverOrigin);
+        }
+
+        const globalMappings = server.mappings.filter(m => !projectOrigins.has(m));
+        server.mappings.forEach(m => {
+            const origin = projectOrigins.get(m);
+            if (origin) {
+                projectPaths.add(origin);
+            }
+        });
+
+        if (!serverOrigin || globalMappings.length > 0) {
+            globalConfig.servers[alias] = { ...server, mappings: globalMappings };
+        }
+    }
+
+    for (const [name, members] of Object.entries(config.groups ?? {})) {
+        const origin = projectOrigins.get(members);
+        if (origin) {
+            projectPaths.add(origin);
+        } else {
+            globalConfig.groups = { ...globalConfig.groups, [name]: members };
+        }
+    }
+
+    for (const projectPath of projectPaths) {
+        saveProjectConfig(config, projectPath);
+    }
+
+    // Don't create ~/.wwsync just because a project config was saved
+    if (fs.existsSync(CONFIG_PATH) || Object.keys(globalConfig.servers).length > 0 || globalConfig.groups) {
+        fs.writeFileSync(CONFIG_PATH, JSON.stringify(globalConfig, null, 4), 'utf-8');
+    }
+}
+
+function saveProjectConfig(config: WWConfig, projectPath: string): void {
+    const root = path.dirname(projectPath);
+    // Keep what is on disk for servers defined in ~/.wwsync (e.g. a shared host without user name)
+    const existing = readConfigFile(projectPath) ?? { servers: {} };
+    const projectConfig: WWConfig = { servers: {} };
+
+    for (const [alias, server] of Object.entries(config.servers)) {
+        const mappings = server.mappings
+            .filter(m => projectOrigins.get(m) === projectPath)
+            .map(m => ({ ...m, local: path.relative(root, m.local).split(path.sep).join('/') || '.' }));
+
+        if (projectOrigins.get(server) === projectPath) {
+            projectConfig.servers[alias] = { ...server, mappings };
+        } else if (existing.servers?.[alias] || mappings.length > 0) {
+            projectConfig.servers[alias] = { ...existing.servers?.[alias], mappings } as ServerConfig;
+        }
+    }
+
+    // Servers without a host were never loaded (see loadConfig) - keep them untouched
+    for (const [alias, server] of Object.entries(existing.servers ?? {})) {
+        if (!config.servers[alias] && !server.host && server.type !== 'local') {
+            projectConfig.servers[alias] = server;
+        }
+    }
+
+    for (const [name, members] of Object.entries(config.groups ?? {})) {
+        if (projectOrigins.get(members) === projectPath) {
+            projectConfig.groups = { ...projectConfig.groups, [name]: members };
+        } else if (existing.groups?.[name]) {
+            // Replaced by a group of the same name in ~/.wwsync - keep the shared definition
+            projectConfig.groups = { ...projectConfig.groups, [name]: existing.groups[name] };
+        }
+    }
+
+    fs.writeFileSync(projectPath, JSON.stringify(projectConfig, null, 4), 'utf-8');
+}
+
+/**
+ * Aliases of the servers in ~/.wwsync; empty if the file is missing or invalid.
+ */
+export function getGlobalServerAliases(): string[] {
     try {
-        const content = fs.readFileSync(CONFIG_PATH, 'utf-8');
-        return JSON.parse(content) as WWConfig;
-    } catch (error) {
-        throw new Error('.wwsync file is corrupted (invalid JSON).');
+        return Object.keys(readConfigFile(CONFIG_PATH)?.servers ?? {});
+    } catch {
+        return [];
     }
 }
 
-export function saveConfig(config: WWConfig): void {
-    fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 4), 'utf-8');
+/**
+ * Stores a new server, mapping or group in the project config of the given workspace folder instead of ~/.wwsync.
+ */
+export function assignToProject(item: ServerConfig | Mapping | string[], workspaceFolder: string): void {
+    projectOrigins.set(item, getProjectConfigPath(workspaceFolder));
+}
+
+/**
+ * Returns the config file a server or mapping is stored in.
+ */
+export function getConfigSource(item: ServerConfig | Mapping | string[]): string {
+    return projectOrigins.get(item) ?? CONFIG_PATH;
+}
+
+/**
+ * All config files that apply to the current workspace: ~/.wwsync and existing project configs.
+ */
+export function getConfigFiles(): string[] {
+    return [CONFIG_PATH, ...getProjectConfigPaths()];
+}
+
+export function getProjectConfigPath(workspaceFolder: string): string {
+    return path.join(workspaceFolder, PROJECT_CONFIG_FILE);
+}
+
+/**
+ * A copy of the mapping with the server's rsync options applied, for running a sync.
+ * Not meant to be saved back to the config.
+ */
+export function resolveMapping(server: ServerConfig, mapping: Mapping): Mapping {
+    if (!server.rsyncOptions) {
+        return mapping;
+    }
+    const extraArgs = [...server.rsyncOptions.extraArgs ?? [], ...mapping.rsyncOptions?.extraArgs ?? []];
+    return {
+        ...mapping,
+        rsyncOptions: { ...server.rsyncOptions, ...mapping.rsyncOptions, extraArgs }
+    };
 }
 
 export function getConfigPath(): string {
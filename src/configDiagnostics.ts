@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfigFiles, getConfigPath, getGlobalServerAliases, PROJECT_CONFIG_FILE } from './config';
+import { validateConfigText } from './configValidation';
+
+function isConfigFile(uri: vscode.Uri): boolean {
+    return uri.scheme === 'file'
+        && (uri.fsPath === getConfigPath() || path.basename(uri.fsPath) === PROJECT_CONFIG_FILE);
+}
+
+/**
+ * Publishes config validation problems to the Problems panel.
+ */
+export class ConfigDiagnostics {
+    private collection: vscode.DiagnosticCollection;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.collection = vscode.languages.createDiagnosticCollection('wwsync');
+
+        context.subscriptions.push(
+            this.collection,
+            // Live feedback while editing
+            vscode.workspace.onDidOpenTextDocument(doc => this.validateDocument(doc)),
+            vscode.workspace.onDidChangeTextDocument(e => this.validateDocument(e.document)),
+            vscode.commands.registerCommand('wwsync.openConfig', () => this.openConfig())
+        );
+
+        this.refresh();
+    }
+
+    /**
+     * Re-validates all config files from disk (or from the editor if open).
+     */
+    public refresh() {
+        this.collection.clear();
+        for (const filePath of getConfigFiles()) {
+            const uri = vscode.Uri.file(filePath);
+            const openDoc = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filePath);
+            if (openDoc) {
+                this.validateDocument(openDoc);
+            } else if (fs.existsSync(filePath)) {
+                this.validate(uri, fs.readFileSync(filePath, 'utf-8'));
+            }
+        }
+    }
+
+    private validateDocument(doc: vscode.TextDocument) {
+        if (isConfigFile(doc.uri)) {
+            this.validate(doc.uri, doc.getText());
+        }
+    }
+
+    private validate(uri: vscode.Uri, text: string): number {
+        const isProject = uri.fsPath !== getConfigPath();
+        const { problems } = validateConfigText(text, isProject, isProject ? getGlobalServerAliases() : undefined);
+        const lineOffsets = [0];
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '\n') {
+                lineOffsets.push(i + 1);
+            }
+        }
+        const toPosition = (offset: number): vscode.Position => {
+            let line = lineOffsets.length - 1;
+            while (line > 0 && lineOffsets[line] > offset) {
+                line--;
+            }
+            return new vscode.Position(line, offset - lineOffsets[line]);
+        };
+
+        const diagnostics = problems.map(p => {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(toPosition(p.offset), toPosition(p.offset + p.length)),
+                p.message,
+                p.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'WWSync';
+            return diagnostic;
+        });
+
+        this.collection.set(uri, diagnostics);
+        return diagnostics.length;
+    }
+
+    public async openConfig(filePath?: string) {
+        if (!filePath) {
+            const files = getConfigFiles();
+            if (files.length === 1) {
+                filePath = files[0];
+            } else {
+                const picked = await vscode.window.showQuickPick(
+                    files.map(f => ({ label: f === getConfigPath() ? '~/.wwsync' : vscode.workspace.asRelativePath(f), description: f, filePath: f })),
+                    { placeHolder: 'Select config file' }
+                );
+                if (!picked) {
+                    return;
+                }
+                filePath = picked.filePath;
+            }
+        }
+
+        // Explicitly requested, so it is fine to create an empty config here
+        if (!fs.existsSync(filePath)) {
+            fs.writeFileSync(filePath, JSON.stringify({ servers: {} }, null, 4), 'utf-8');
+        }
+
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        await vscode.window.showTextDocument(doc);
+        if (doc.languageId !== 'json') {
+            await vscode.languages.setTextDocumentLanguage(doc, 'json');
+        }
+
+        if (this.validate(doc.uri, doc.getText()) > 0) {
+            await vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+    }
+}
@@ -0,0 +1,373 @@
+import * as jsonc from 'jsonc-parser';
+import * as path from 'path';
+import { WWConfig } from './config';
+
+export interface ConfigProblem {
+    message: string;
+    offset: number;
+    length: number;
+    severity: 'error' | 'warning';
+}
+
+export interface ValidationResult {
+    config: WWConfig | undefined;
+    problems: ConfigProblem[];
+}
+
+type JsonPath = (string | number)[];
+
+/**
+ * Line/column (1-based) of an offset, for messages outside the editor.
+ */
+export function offsetToPosition(text: string, offset: number): { line: number; column: number } {
+    const before = text.substring(0, offset);
+    const lines = before.split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+export function formatProblem(text: string, problem: ConfigProblem): string {
+    const { line, column } = offsetToPosition(text, problem.offset);
+    return `line ${line}, column ${column}: ${problem.message}`;
+}
+
+class Validator {
+    public problems: ConfigProblem[] = [];
+
+    constructor(private root: jsonc.Node | undefined) { }
+
+    public report(path: JsonPath, message: string, severity: 'error' | 'warning' = 'error') {
+        // Point at the value if it exists, otherwise at the closest existing parent
+        let node: jsonc.Node | undefined;
+        for (let i = path.length; i >= 0 && !node; i--) {
+            node = this.root && jsonc.findNodeAtLocation(this.root, path.slice(0, i));
+        }
+        // Highlight the property name rather than a whole object/array value
+        const target = node?.parent?.type === 'property' && (node.type === 'object' || node.type === 'array')
+            ? node.parent.children![0]
+            : node;
+        this.problems.push({
+            message,
+            offset: target?.offset ?? 0,
+            length: target?.length ?? 1,
+            severity
+        });
+    }
+
+    private typeOf(value: unknown): string {
+        if (Array.isArray(value)) {
+            return 'array';
+        }
+        return value === null ? 'null' : typeof value;
+    }
+
+    public expect(value: unknown, type: 'string' | 'boolean' | 'number' | 'object' | 'array', path: JsonPath, name: string): boolean {
+        const actual = this.typeOf(value);
+        if (actual !== type) {
+            this.report(path, `'${name}' must be ${type === 'array' || type === 'object' ? 'an' : 'a'} ${type}, got ${actual}.`);
+            return false;
+        }
+        return true;
+    }
+
+    public require(value: unknown, path: JsonPath, name: string): boolean {
+        if (value === undefined) {
+            this.report(path, `Missing required property '${name}'.`);
+            return false;
+        }
+        return true;
+    }
+}
+
+// Arguments WWSync sets itself or relies on not being set, with the reason shown to the user
+const MANAGED_ARGS: { pattern: RegExp; reason: string }[] = [
+    { pattern: /^--del(ete[\w-]*)?$/, reason: 'deletion is controlled by Full Sync / Full Pull; Safe Sync must never delete' },
+    { pattern: /^--remove-source-files$/, reason: 'it would delete the source files after a sync' },
+    { pattern: /^--(dry-run|list-only)$/, reason: 'WWSync runs its own dry run before destructive operations' },
+    { pattern: /^--(itemize-changes|out-format|info|stats|quiet|human-readable)$/, reason: 'WWSync parses the rsync output' },
+    { pattern: /^--(files-from|from0)$/, reason: 'it is used by Sync Files and Auto Sync' },
+    { pattern: /^--backup-dir$/, reason: 'use the mapping\'s snapshots option' },
+    { pattern: /^--(daemon|server|sender)$/, reason: 'it is an internal rsync mode' },
+    { pattern: /^--rsh$/, reason: 'use the server\'s port, identityFile, proxyJump, user and sshOptions' },
+    { pattern: /^--(no-)?(protect|secluded)-args$|^--old-args$/, reason: 'WWSync passes paths and patterns to the server unchanged' }
+];
+
+// Short options from the list above (-n dry run, -i itemize, -q quiet, -h human-readable, -e remote shell, -s protect args)
+const MANAGED_SHORT_ARGS = 'niqhes';
+// Short options taking a value; the rest of the cluster is that value (e.g. "-essh")
+const VALUE_SHORT_ARGS = 'BTfM';
+
+// Arguments with a typed rsyncOptions field
+const TYPED_ARGS: { [arg: string]: string } = {
+    '--checksum': 'checksum',
+    '--bwlimit': 'bwlimit',
+    '--chmod': 'chmod',
+    '--chown': 'chown',
+    '--backup': 'backup',
+    '--suffix': 'backupSuffix',
+    '--compress': 'compress',
+    '--no-compress': 'compress'
+};
+
+/**
+ * Why an extra rsync argument can't be used, or undefined if it is fine.
+ */
+function checkExtraArg(arg: string): string | undefined {
+    const name = arg.split('=')[0];
+    if (/^-[a-zA-Z]+$/.test(name)) {
+        for (const c of name.substring(1)) {
+            if (VALUE_SHORT_ARGS.includes(c)) {
+                break;
+            }
+            if (MANAGED_SHORT_ARGS.includes(c)) {
+                return `'-${c}' is managed by WWSync`;
+            }
+        }
+        return undefined;
+    }
+    const managed = MANAGED_ARGS.find(m => m.pattern.test(name));
+    return managed ? `'${name}' is managed by WWSync: ${managed.reason}` : undefined;
+}
+
+function validateRsyncOptions(v: Validator, options: any, path: JsonPath) {
+    if (!v.expect(options, 'object', path, 'rsyncOptions')) {
+        return;
+    }
+
+    for (const key of ['checksum', 'backup', 'compress']) {
+        if (options[key] !== undefined) {
+            v.expect(options[key], 'boolean', [...path, key], key);
+        }
+    }
+    for (const key of ['chmod', 'chown', 'backupSuffix']) {
+        if (options[key] !== undefined) {
+            v.expect(options[key], 'string', [...path, key], key);
+        }
+    }
+    if (options.bwlimit !== undefined && typeof options.bwlimit !== 'number') {
+        if (v.expect(options.bwlimit, 'string', [...path, 'bwlimit'], 'bwlimit') && !/^\d+(\.\d+)?[bkmgtp]?$/i.test(options.bwlimit)) {
+            v.report([...path, 'bwlimit'], `'bwlimit' must be a number of KiB/s or a size like "1.5m", got "${options.bwlimit}".`);
+        }
+    }
+    if (options.extraArgs !== undefined && v.expect(options.extraArgs, 'array', [...path, 'extraArgs'], 'extraArgs')) {
+        options.extraArgs.forEach((arg: unknown, i: number) => {
+            if (!v.expect(arg, 'string', [...path, 'extraArgs', i], 'extraArgs[]')) {
+                return;
+            }
+            const conflict = checkExtraArg(arg as string);
+            if (conflict) {
+                v.report([...path, 'extraArgs', i], `${conflict}.`);
+                return;
+            }
+            const typed = TYPED_ARGS[(arg as string).split('=')[0]];
+            if (typed) {
+                v.report([...path, 'extraArgs', i], `Use the '${typed}' option instead of '${arg}'.`, 'warning');
+            }
+        });
+    }
+}
+
+/**
+ * Whether a project mapping's `local` leaves the workspace folder (absolute, or through "..").
+ */
+function isOutsideWorkspaceFolder(local: string): boolean {
+    const root = path.resolve('/workspace');
+    const relative = path.relative(root, path.resolve(root, local));
+    return relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative);
+}
+
+function validateMapping(v: Validator, mapping: any, path: JsonPath, isProject: boolean) {
+    if (!v.expect(mapping, 'object', path, 'mapping')) {
+        return;
+    }
+
+    // Project mappings default to the workspace folder
+    if (!isProject || mapping.local !== undefined) {
+        if (v.require(mapping.local, path, 'local')) {
+            v.expect(mapping.local, 'string', [...path, 'local'], 'local');
+        }
+    }
+    // A cloned repository must not sync (or pull and delete) outside its own folder
+    if (isProject && typeof mapping.local === 'string' && isOutsideWorkspaceFolder(mapping.local)) {
+        v.report([...path, 'local'], `'local' must be a folder inside the workspace folder, got "${mapping.local}".`);
+    }
+    if (v.require(mapping.remote, path, 'remote')) {
+        v.expect(mapping.remote, 'string', [...path, 'remote'], 'remote');
+    }
+    if (mapping.excludes !== undefined && v.expect(mapping.excludes, 'array', [...path, 'excludes'], 'excludes')) {
+        mapping.excludes.forEach((exc: unknown, i: number) =>
+            v.expect(exc, 'string', [...path, 'excludes', i], 'excludes[]'));
+    }
+    for (const key of ['autoSync', 'useGitignore']) {
+        if (mapping[key] !== undefined) {
+            v.expect(mapping[key], 'boolean', [...path, key], key);
+        }
+    }
+    for (const key of ['localPreSync', 'preSync', 'postSync']) {
+        if (mapping[key] !== undefined && v.expect(mapping[key], 'array', [...path, key], key)) {
+            mapping[key].forEach((command: unknown, i: number) =>
+                v.expect(command, 'string', [...path, key, i], `${key}[]`));
+        }
+    }
+    if (mapping.rsyncOptions !== undefined) {
+        validateRsyncOptions(v, mapping.rsyncOptions, [...path, 'rsyncOptions']);
+    }
+    if (mapping.snapshots !== undefined && typeof mapping.snapshots !== 'boolean') {
+        validateSnapshots(v, mapping.snapshots, [...path, 'snapshots']);
+    }
+    if (mapping.commands !== undefined && v.expect(mapping.commands, 'array', [...path, 'commands'], 'commands')) {
+        const names = new Set<string>();
+        mapping.commands.forEach((command: any, i: number) => {
+            validateRemoteCommand(v, command, [...path, 'commands', i]);
+            if (typeof command?.name === 'string') {
+                if (names.has(command.name)) {
+                    v.report([...path, 'commands', i, 'name'], `Duplicate command name '${command.name}'.`);
+                }
+                names.add(command.name);
+            }
+        });
+    }
+}
+
+function validateRemoteCommand(v: Validator, command: any, path: JsonPath) {
+    if (!v.expect(command, 'object', path, 'command')) {
+        return;
+    }
+    for (const key of ['name', 'command']) {
+        if (v.require(command[key], path, key)) {
+            v.expect(command[key], 'string', [...path, key], key);
+        }
+    }
+    if (command.runIn !== undefined && command.runIn !== 'terminal' && command.runIn !== 'output') {
+        v.report([...path, 'runIn'], `'runIn' must be "terminal" or "output", got ${JSON.stringify(command.runIn)}.`);
+    }
+    if (command.sync !== undefined && command.sync !== 'safe' && command.sync !== 'full') {
+        v.report([...path, 'sync'], `'sync' must be "safe" or "full", got ${JSON.stringify(command.sync)}.`);
+    }
+}
+
+function validateSnapshots(v: Validator, snapshots: any, path: JsonPath) {
+    if (!v.expect(snapshots, 'object', path, 'snapshots')) {
+        return;
+    }
+    if (snapshots.dir !== undefined && v.expect(snapshots.dir, 'string', [...path, 'dir'], 'dir')
+        && (snapshots.dir === '' || snapshots.dir.startsWith('~'))) {
+        v.report([...path, 'dir'], `'dir' must be an absolute path or relative to 'remote', got "${snapshots.dir}".`);
+    }
+    if (snapshots.keep !== undefined && v.expect(snapshots.keep, 'number', [...path, 'keep'], 'keep')
+        && !(Number.isInteger(snapshots.keep) && snapshots.keep > 0)) {
+        v.report([...path, 'keep'], `'keep' must be a positive whole number, got ${snapshots.keep}.`);
+    }
+}
+
+// ssh options that run a command on this machine; a shared project file must not set them
+const LOCAL_COMMAND_SSH_OPTIONS = ['proxycommand', 'localcommand', 'permitlocalcommand', 'knownhostscommand'];
+
+function validateServer(v: Validator, server: any, path: JsonPath, isProject: boolean) {
+    if (!v.expect(server, 'object', path, 'server')) {
+        return;
+    }
+
+    if (server.type !== undefined && v.expect(server.type, 'string', [...path, 'type'], 'type')
+        && server.type !== 'ssh' && server.type !== 'local') {
+        v.report([...path, 'type'], `'type' must be "ssh" or "local", got "${server.type}".`);
+    }
+
+    // A project server may leave the host to ~/.wwsync; local targets have none
+    if (server.type === 'local') {
+        if (server.host !== undefined) {
+            v.report([...path, 'host'], `'host' is not used by local targets.`, 'warning');
+        }
+    } else if (!isProject || server.host !== undefined) {
+        if (v.require(server.host, path, 'host')) {
+            v.expect(server.host, 'string', [...path, 'host'], 'host');
+        }
+    }
+    if (server.shell !== undefined) {
+        v.expect(server.shell, 'string', [...path, 'shell'], 'shell');
+    }
+    for (const key of ['identityFile', 'proxyJump', 'user']) {
+        if (server[key] !== undefined) {
+            v.expect(server[key], 'string', [...path, key], key);
+        }
+    }
+    // ssh would read such a value as an option (e.g. "-oProxyCommand=...")
+    for (const key of ['host', 'user', 'proxyJump']) {
+        if (typeof server[key] === 'string' && server[key].startsWith('-')) {
+            v.report([...path, key], `'${key}' must not start with "-".`);
+        }
+    }
+    if (server.port !== undefined && v.expect(server.port, 'number', [...path, 'port'], 'port')
+        && !(Number.isInteger(server.port) && server.port > 0 && server.port < 65536)) {
+        v.report([...path, 'port'], `'port' must be between 1 and 65535, got ${server.port}.`);
+    }
+    if (server.sshOptions !== undefined && v.expect(server.sshOptions, 'array', [...path, 'sshOptions'], 'sshOptions')) {
+        server.sshOptions.forEach((option: unknown, i: number) => {
+            if (!v.expect(option, 'string', [...path, 'sshOptions', i], 'sshOptions[]')) {
+                return;
+            }
+            if (!/^\w+=\S/.test(option as string)) {
+                v.report([...path, 'sshOptions', i], `SSH options must look like "Key=Value", got "${option}".`);
+            } else if (isProject && LOCAL_COMMAND_SSH_OPTIONS.includes((option as string).split('=')[0].toLowerCase())) {
+                v.report([...path, 'sshOptions', i], `'${(option as string).split('=')[0]}' runs local commands and is only allowed in ~/.wwsync.`);
+            }
+        });
+    }
+    if (server.rsyncOptions !== undefined) {
+        validateRsyncOptions(v, server.rsyncOptions, [...path, 'rsyncOptions']);
+    }
+    if (v.require(server.mappings, path, 'mappings') && v.expect(server.mappings, 'array', [...path, 'mappings'], 'mappings')) {
+        server.mappings.forEach((mapping: unknown, i: number) =>
+            validateMapping(v, mapping, [...path, 'mappings', i], isProject));
+    }
+}
+
+function isHostless(server: any): boolean {
+    return typeof server === 'object' && server !== null && server.host === undefined && server.type !== 'local';
+}
+
+/**
+ * Parses a config file and checks its shape.
+ * `config` is only set when there are no errors. For a project config, `globalServers` (the aliases
+ * in ~/.wwsync) lets project servers without a host be reported when nothing supplies one.
+ */
+export function validateConfigText(text: string, isProject: boolean, globalServers?: string[]): ValidationResult {
+    const parseErrors: jsonc.ParseError[] = [];
+    const root = jsonc.parseTree(text, parseErrors, { disallowComments: true, allowTrailingComma: false });
+
+    if (parseErrors.length > 0) {
+        return {
+            config: undefined,
+            problems: parseErrors.map(e => ({
+                message: `Invalid JSON: ${jsonc.printParseErrorCode(e.error)}.`,
+                offset: e.offset,
+                length: Math.max(e.length, 1),
+                severity: 'error'
+            }))
+        };
+    }
+
+    const value = root ? jsonc.getNodeValue(root) : undefined;
+    const v = new Validator(root);
+
+    if (v.expect(value, 'object', [], 'config')) {
+        if (v.require(value.servers, [], 'servers') && v.expect(value.servers, 'object', ['servers'], 'servers')) {
+            for (const [alias, server] of Object.entries(value.servers)) {
+                validateServer(v, server, ['servers', alias], isProject);
+                if (isProject && globalServers && !globalServers.includes(alias) && isHostless(server)) {
+                    v.report(['servers', alias], `Server '${alias}' has no 'host' and is not defined in ~/.wwsync, so it is ignored.`, 'warning');
+                }
+            }
+        }
+        if (value.groups !== undefined && v.expect(value.groups, 'object', ['groups'], 'groups')) {
+            for (const [name, members] of Object.entries(value.groups)) {
+                if (v.expect(members, 'array', ['groups', name], name)) {
+                    (members as unknown[]).forEach((member, i) =>
+                        v.expect(member, 'string', ['groups', name, i], `${name}[]`));
+                }
+            }
+        }
+    }
+
+    const hasErrors = v.problems.some(p => p.severity === 'error');
+    return { config: hasErrors ? undefined : value as WWConfig, problems: v.problems };
+}
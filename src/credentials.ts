@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+
+const INDEX_KEY = 'wwsync.credentials';
+
+function secretKey(serverAlias: string, prompt: string): string {
+    return `wwsync:${serverAlias}:${prompt}`;
+}
+
+/**
+ * Passwords and key passphrases kept in VS Code SecretStorage, keyed by server alias and prompt.
+ * Only used when `wwsync.rememberCredentials` is enabled.
+ */
+export class CredentialStore {
+    private secrets: vscode.SecretStorage;
+    private globalState: vscode.Memento;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.secrets = context.secrets;
+        this.globalState = context.globalState;
+    }
+
+    public isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('wwsync').get<boolean>('rememberCredentials', false);
+    }
+
+    // SecretStorage can't list its keys, so the stored prompts per server are tracked separately
+    private getIndex(): { [serverAlias: string]: string[] } {
+        return this.globalState.get<{ [serverAlias: string]: string[] }>(INDEX_KEY, {});
+    }
+
+    private async setIndex(index: { [serverAlias: string]: string[] }) {
+        await this.globalState.update(INDEX_KEY, index);
+    }
+
+    /**
+     * Server aliases with stored credentials.
+     */
+    public getServers(): string[] {
+        return Object.keys(this.getIndex());
+    }
+
+    public async get(serverAlias: string, prompt: string): Promise<string | undefined> {
+        if (!this.isEnabled()) {
+            return undefined;
+        }
+        return this.secrets.get(secretKey(serverAlias, prompt));
+    }
+
+    public async store(serverAlias: string, prompt: string, password: string) {
+        if (!this.isEnabled()) {
+            return;
+        }
+        await this.secrets.store(secretKey(serverAlias, prompt), password);
+
+        const index = this.getIndex();
+        const prompts = index[serverAlias] ?? [];
+        if (!prompts.includes(prompt)) {
+            index[serverAlias] = [...prompts, prompt];
+            await this.setIndex(index);
+        }
+    }
+
+    public async delete(serverAlias: string, prompt: string) {
+        await this.secrets.delete(secretKey(serverAlias, prompt));
+
+        const index = this.getIndex();
+        const prompts = (index[serverAlias] ?? []).filter(p => p !== prompt);
+        if (prompts.length > 0) {
+            index[serverAlias] = prompts;
+        } else {
+            delete index[serverAlias];
+        }
+        await this.setIndex(index);
+    }
+
+    /**
+     * Removes the stored credentials of one server, or of all servers.
+     */
+    public async forget(serverAlias?: string) {
+        const index = this.getIndex();
+        const aliases = serverAlias ? [serverAlias] : Object.keys(index);
+
+        for (const alias of aliases) {
+            for (const prompt of index[alias] ?? []) {
+                await this.secrets.delete(secretKey(alias, prompt));
+            }
+            delete index[alias];
+        }
+        await this.setIndex(index);
+    }
+
+    /**
+     * Moves stored credentials after a server was renamed, or removes them after it was deleted.
+     */
+    public async renameServer(oldAlias: string, newAlias: string | undefined) {
+        const prompts = this.getIndex()[oldAlias] ?? [];
+        if (newAlias) {
+            for (const prompt of prompts) {
+                const password = await this.secrets.get(secretKey(oldAlias, prompt));
+                if (password !== undefined) {
+                    await this.secrets.store(secretKey(newAlias, prompt), password);
+                }
+            }
+            const index = this.getIndex();
+            if (prompts.length > 0) {
+                index[newAlias] = prompts;
+                await this.setIndex(index);
+            }
+        }
+        await this.forget(oldAlias);
+    }
+}
@@ -0,0 +1,369 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Mapping, loadConfig, resolveMapping } from './config';
+import { findMappings, findServersForPath, selectTarget } from './serverSelector';
+import { SessionState } from './sessionState';
+import { CredentialStore } from './credentials';
+import { withAskPass } from './askPass';
+import { ItemizedChange, checkDrift } from './rsync';
+import { toRemoteUri } from './remoteFileSystem';
+
+export type DriftStatus = 'checking' | 'inSync' | 'localChanges' | 'remoteDrift' | 'failed';
+
+export interface DriftState {
+    status: DriftStatus;
+    serverAlias: string;
+    /** Resolved mapping that was checked */
+    mapping: Mapping;
+    localChanges: ItemizedChange[];
+    remoteDrift: ItemizedChange[];
+    checkedAt?: number;
+    error?: string;
+}
+
+interface DriftTarget {
+    serverAlias: string;
+    mapping: Mapping;
+}
+
+interface ReportItem extends vscode.QuickPickItem {
+    change?: ItemizedChange;
+    action?: 'check' | 'pullAll';
+}
+
+const PULL_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('cloud-download'), tooltip: 'Pull from Server' };
+const COMPARE_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('compare-changes'), tooltip: 'Compare with Remote' };
+
+/**
+ * The folder WWSync acts on: the active editor's workspace folder, or the only workspace folder.
+ */
+export function getActiveWorkspaceFolder(): string | undefined {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (activeEditor) {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(activeEditor.document.uri);
+        if (workspaceFolder) {
+            return workspaceFolder.uri.fsPath;
+        }
+    }
+
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (workspaceFolders && workspaceFolders.length === 1) {
+        return workspaceFolders[0].uri.fsPath;
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks whether the server copy of a mapping was changed behind WWSync's back, in the background
+ * (every `wwsync.driftCheckInterval` minutes) or with 'WWSync: Check for Remote Drift'.
+ */
+export class DriftMonitor implements vscode.Disposable {
+    // Last result per workspace folder
+    private states = new Map<string, DriftState>();
+    private timer: NodeJS.Timeout | undefined;
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private sessionState: SessionState,
+        private credentials: CredentialStore
+    ) {
+        context.subscriptions.push(
+            this,
+            vscode.commands.registerCommand('wwsync.checkDrift', () => this.checkAndReport()),
+            vscode.commands.registerCommand('wwsync.showDriftReport', () => this.showReport()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('wwsync.driftCheckInterval')) {
+                    this.restartTimer();
+                }
+            })
+        );
+        this.restartTimer();
+    }
+
+    /**
+     * Last result for a folder, if it was checked against the given server.
+     */
+    public getState(currentPath: string, serverAlias: string): DriftState | undefined {
+        const state = this.states.get(currentPath);
+        return state?.serverAlias === serverAlias ? state : undefined;
+    }
+
+    /**
+     * Checks the mappings of a local folder again after a sync changed one of its sides.
+     * Only mappings that were already checked are refreshed, without asking for passwords.
+     */
+    public recheck(local: string) {
+        for (const [currentPath, state] of this.states) {
+            if (state.mapping.local === local && state.status !== 'checking') {
+                this.check(currentPath, { serverAlias: state.serverAlias, mapping: state.mapping }, false);
+            }
+        }
+    }
+
+    private restartTimer() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        const minutes = vscode.workspace.getConfiguration('wwsync').get<number>('driftCheckInterval', 0);
+        if (minutes > 0) {
+            this.timer = setInterval(() => this.checkActiveFolder(false), minutes * 60 * 1000);
+        }
+    }
+
+    /**
+     * Server and mapping of a folder without asking: the remembered or only server.
+     */
+    private resolveTarget(currentPath: string): DriftTarget | undefined {
+        const config = loadConfig();
+        const servers = findServersForPath(config, currentPath);
+        const remembered = this.sessionState.get(currentPath);
+        const serverAlias = remembered && servers.includes(remembered)
+            ? remembered
+            : servers.length === 1 ? servers[0] : undefined;
+        if (!serverAlias) {
+            return undefined;
+        }
+
+        // Nested mappings: the one chosen for this session, otherwise the innermost
+        const serverConfig = config.servers[serverAlias];
+        const mappings = findMappings(serverConfig, currentPath);
+        const chosen = this.sessionState.getMapping(serverAlias, currentPath);
+        const mapping = mappings.find(m => m.local === chosen) ?? mappings[0];
+        return mapping ? { serverAlias, mapping: resolveMapping(serverConfig, mapping) } : undefined;
+    }
+
+    private async checkAndReport() {
+        const state = await this.checkActiveFolder(true);
+        if (!state) {
+            return;
+        }
+        if (state.status === 'failed') {
+            vscode.window.showErrorMessage(`WWSync: Drift check failed: ${state.error}`);
+        } else if (state.status === 'remoteDrift') {
+            const action = await vscode.window.showWarningMessage(
+                `${state.remoteDrift.length} file(s) changed on ${state.serverAlias} since the last sync.`,
+                'Show Report'
+            );
+            if (action === 'Show Report') {
+                await this.showReport();
+            }
+        } else if (state.status === 'localChanges') {
+            vscode.window.setStatusBarMessage(`WWSync: ${state.localChanges.length} local change(s), no remote drift.`, 5000);
+        } else {
+            vscode.window.setStatusBarMessage('WWSync: Local and remote files are in sync.', 5000);
+        }
+    }
+
+    private async checkActiveFolder(interactive: boolean): Promise<DriftState | undefined> {
+        const currentPath = getActiveWorkspaceFolder();
+        if (!currentPath) {
+            if (interactive) {
+                vscode.window.showErrorMessage('No workspace folder found. Please open a folder first.');
+            }
+            return undefined;
+        }
+
+        try {
+            let target = this.resolveTarget(currentPath);
+            if (!target && interactive) {
+                const selected = await selectTarget(currentPath, this.sessionState);
+                if (selected) {
+                    const serverConfig = selected.config.servers[selected.serverAlias];
+                    target = { serverAlias: selected.serverAlias, mapping: resolveMapping(serverConfig, selected.mapping) };
+                }
+            }
+            if (!target) {
+                return undefined;
+            }
+
+            if (!interactive) {
+                return await this.check(currentPath, target, false);
+            }
+            return await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `WWSync: Checking ${target.serverAlias} for remote drift`,
+                cancellable: true
+            }, (_progress, token) => this.check(currentPath, target!, true, token));
+        } catch (error: any) {
+            if (interactive) {
+                vscode.window.showErrorMessage(`WWSync Error: ${error.message}`);
+            }
+            return undefined;
+        }
+    }
+
+    private async check(
+        currentPath: string,
+        target: DriftTarget,
+        interactive: boolean,
+        token?: vscode.CancellationToken
+    ): Promise<DriftState | undefined> {
+        const previous = this.getState(currentPath, target.serverAlias);
+        if (previous?.status === 'checking') {
+            return undefined;
+        }
+
+        // Keep the previous result visible while checking
+        const state: DriftState = {
+            localChanges: [],
+            remoteDrift: [],
+            ...previous,
+            ...target,
+            status: 'checking'
+        };
+        this.update(currentPath, state);
+
+        try {
+            const result = await withAskPass(this.sessionState, this.credentials, target.serverAlias,
+                env => checkDrift(loadConfig().servers[target.serverAlias], target.mapping, token, env), { interactive });
+            this.update(currentPath, {
+                ...state,
+                ...result,
+                status: result.remoteDrift.length > 0 ? 'remoteDrift' : result.localChanges.length > 0 ? 'localChanges' : 'inSync',
+                checkedAt: Date.now(),
+                error: undefined
+            });
+        } catch (error: any) {
+            if (token?.isCancellationRequested) {
+                // Back to the last completed result
+                if (previous) {
+                    this.update(currentPath, previous);
+                } else {
+                    this.states.delete(currentPath);
+                    this._onDidChange.fire();
+                }
+                return undefined;
+            }
+            const message = interactive ? error.message : `${error.message} (run 'WWSync: Check for Remote Drift' if the server needs a password)`;
+            this.update(currentPath, { ...state, status: 'failed', checkedAt: Date.now(), error: message });
+        }
+        return this.states.get(currentPath);
+    }
+
+    private update(currentPath: string, state: DriftState) {
+        this.states.set(currentPath, state);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Lists the drifted and locally changed files of the active folder. Drifted files can be
+     * pulled back, and every file can be compared with its server copy.
+     */
+    public async showReport() {
+        const currentPath = getActiveWorkspaceFolder();
+        let state = currentPath ? this.states.get(currentPath) : undefined;
+        if (!currentPath || !state || state.status === 'failed') {
+            state = await this.checkActiveFolder(true);
+        }
+        if (!currentPath || !state || state.status === 'checking') {
+            return;
+        }
+        if (state.status === 'failed') {
+            vscode.window.showErrorMessage(`WWSync: Drift check failed: ${state.error}`);
+            return;
+        }
+
+        const quickPick = vscode.window.createQuickPick<ReportItem>();
+        const render = (current: DriftState) => {
+            const checked = current.checkedAt ? new Date(current.checkedAt).toLocaleTimeString() : '';
+            quickPick.title = `WWSync: ${current.serverAlias} (checked ${checked})`;
+            quickPick.placeholder = current.status === 'inSync'
+                ? 'Local and remote files are in sync.'
+                : 'Select a file to compare it with the server copy';
+            quickPick.items = this.getReportItems(current);
+        };
+        render(state);
+
+        quickPick.onDidAccept(async () => {
+            const item = quickPick.selectedItems[0];
+            if (item?.action === 'check') {
+                quickPick.busy = true;
+                const updated = await this.check(currentPath, { serverAlias: state!.serverAlias, mapping: state!.mapping }, true);
+                quickPick.busy = false;
+                if (updated?.status === 'failed') {
+                    quickPick.hide();
+                    vscode.window.showErrorMessage(`WWSync: Drift check failed: ${updated.error}`);
+                } else if (updated) {
+                    state = updated;
+                    render(updated);
+                }
+            } else if (item?.action === 'pullAll') {
+                quickPick.hide();
+                await this.pull(state!, state!.remoteDrift);
+            } else if (item?.change) {
+                await this.compare(state!, item.change);
+            }
+        });
+        quickPick.onDidTriggerItemButton(async e => {
+            if (!e.item.change) {
+                return;
+            }
+            if (e.button === PULL_BUTTON) {
+                quickPick.hide();
+                await this.pull(state!, [e.item.change]);
+            } else {
+                await this.compare(state!, e.item.change);
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    private getReportItems(state: DriftState): ReportItem[] {
+        const items: ReportItem[] = [{ label: '$(refresh) Check Again', action: 'check' }];
+        if (state.remoteDrift.length > 1) {
+            items.push({ label: `$(cloud-download) Pull All ${state.remoteDrift.length} Files from Server`, action: 'pullAll' });
+        }
+
+        if (state.remoteDrift.length > 0) {
+            items.push({ label: 'Changed on the server', kind: vscode.QuickPickItemKind.Separator });
+            items.push(...state.remoteDrift.map(change => ({
+                label: `$(warning) ${change.path}`,
+                description: change.kind === 'deleted' ? 'only on server' : 'newer on server',
+                buttons: [PULL_BUTTON, COMPARE_BUTTON],
+                change
+            })));
+        }
+
+        if (state.localChanges.length > 0) {
+            items.push({ label: 'Changed locally', kind: vscode.QuickPickItemKind.Separator });
+            items.push(...state.localChanges.map(change => ({
+                label: `$(arrow-up) ${change.path}`,
+                description: change.kind === 'new' ? 'only local' : 'newer locally',
+                buttons: change.kind === 'new' ? [] : [COMPARE_BUTTON],
+                change
+            })));
+        }
+
+        return items;
+    }
+
+    private async pull(state: DriftState, changes: ItemizedChange[]) {
+        await vscode.commands.executeCommand('wwsync.drift.pull', state.serverAlias, state.mapping, changes.map(c => c.path));
+    }
+
+    private async compare(state: DriftState, change: ItemizedChange) {
+        const localPath = path.join(state.mapping.local, change.path);
+        if (fs.existsSync(localPath)) {
+            // Against the server that reported the drift, not the one selected for the folder
+            await vscode.commands.executeCommand('wwsync.compareWithRemote', vscode.Uri.file(localPath), state.serverAlias, state.mapping);
+        } else {
+            // Only on the server: show the read-only remote copy
+            const remoteUri = toRemoteUri(state.serverAlias, path.posix.join(state.mapping.remote, change.path));
+            await vscode.commands.executeCommand('vscode.open', remoteUri, { preview: true });
+        }
+    }
+
+    public dispose() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
@@ -2,18 +2,42 @@ import * as vscode from 'vscode';
 import * as os from 'os';
 import * as path from 'path';
 import * as fs from 'fs';
-import { loadConfig, saveConfig, WWConfig, ServerConfig, Mapping } from './config';
-import { selectServer, selectOrCreateMapping } from './serverSelector';
-import { runSafeSync, runFullSync } from './rsync';
+import { loadConfig, saveConfig, getConfigPath, PROJECT_CONFIG_FILE, ConfigError, WWConfig, ServerConfig, Mapping, resolveMapping } from './config';
+import { selectServer, selectOrCreateMapping, selectTarget, getRelativePath, getRemotePath, getCommonFolder } from './serverSelector';
+import { runSafeSync, runFullSync, runSafePull, runFullPull, listExcludedFiles } from './rsync';
 import { runRemoteSession } from './run';
+import { runHooks } from './hooks';
 import { SessionState } from './sessionState';
 import { WWSyncStatusBar } from './statusBar';
-
-import { AskPassManager } from './askPass';
+import { AutoSyncManager } from './autoSync';
+import { SyncReviewView } from './syncReview';
+import { SyncHistory, SyncHistoryEntry } from './history';
+import { SyncJob, SyncCommand, SYNC_COMMAND_TITLES } from './syncJob';
+import { SyncSummary, formatBytes } from './progress';
+import { ConfigDiagnostics } from './configDiagnostics';
+import { ServersView } from './serversView';
+import { GroupSync } from './syncGroup';
+import { RemoteFileSystemProvider, toRemoteUri, getMaxFileSize } from './remoteFileSystem';
+import { DriftMonitor } from './drift';
+import { SyncJobQueue, anyCancellation } from './jobQueue';
+import { killAllProcesses } from './processes';
+import { Snapshot, getSnapshotDir, listSnapshots, restoreSnapshot } from './snapshots';
+import { RemoteCommands, SyncRunner } from './remoteCommands';
+import { SyncTaskProvider } from './taskProvider';
+
+import { withAskPass } from './askPass';
+import { CredentialStore } from './credentials';
 
 // Session-based server selection storage
 const sessionState = new SessionState();
+let credentials: CredentialStore;
 let statusBar: WWSyncStatusBar;
+let syncReview: SyncReviewView;
+let history: SyncHistory;
+let configDiagnostics: ConfigDiagnostics;
+let remoteFs: RemoteFileSystemProvider;
+let drift: DriftMonitor;
+let jobQueue: SyncJobQueue;
 
 export function activate(context: vscode.ExtensionContext) {
 
@@ -21,8 +45,47 @@ export function activate(context: vscode.ExtensionContext) {
 
     const outputChannel = vscode.window.createOutputChannel('WWSync');
 
+    // Stored passwords and passphrases (opt-in)
+    credentials = new CredentialStore(context);
+    const forgetCredentialsCmd = vscode.commands.registerCommand('wwsync.forgetCredentials', async (node?: { alias: string }) => {
+        await forgetCredentials(node?.alias);
+    });
+
+    // Sync jobs run one at a time per mapping ('WWSync: Cancel All' stops them)
+    jobQueue = new SyncJobQueue(context);
+
+    // Remote drift detection ('WWSync: Check for Remote Drift' and the drift report)
+    drift = new DriftMonitor(context, sessionState, credentials);
+    const driftPullCmd = vscode.commands.registerCommand('wwsync.drift.pull', async (serverAlias: string, mapping: Mapping, files: string[]) => {
+        try {
+            const serverConfig = loadConfig().servers[serverAlias];
+            if (!serverConfig) {
+                vscode.window.showErrorMessage(`Server '${serverAlias}' no longer exists.`);
+                return;
+            }
+            await runSyncJob(outputChannel, { command: 'pullFiles', serverAlias, server: serverConfig, mapping, files });
+        } catch (error: any) {
+            showError(error);
+        }
+    });
+
     // Initialize Status Bar
-    statusBar = new WWSyncStatusBar(context, sessionState);
+    statusBar = new WWSyncStatusBar(context, sessionState, drift, jobQueue);
+
+    // Full Sync review panel
+    syncReview = new SyncReviewView(context);
+
+    // Config validation (Problems panel) and 'WWSync: Open Config'
+    configDiagnostics = new ConfigDiagnostics(context);
+
+    // Servers and mappings sidebar
+    const serversView = new ServersView(context, sessionState, credentials, statusBar);
+
+    // Sync history view
+    history = new SyncHistory(context);
+    const rerunCmd = vscode.commands.registerCommand('wwsync.history.rerun', async (entry: SyncHistoryEntry) => {
+        await rerunHistoryEntry(outputChannel, entry);
+    });
 
     // Safe Sync command
     const safeSyncCmd = vscode.commands.registerCommand('wwsync.safeSync', async () => {
@@ -34,17 +97,136 @@ export function activate(context: vscode.ExtensionContext) {
         await executeSync(outputChannel, true);
     });
 
+    // Safe Pull command
+    const pullSafeCmd = vscode.commands.registerCommand('wwsync.pullSafe', async () => {
+        await executeSync(outputChannel, false, true);
+    });
+
+    // Full Pull command
+    const pullFullCmd = vscode.commands.registerCommand('wwsync.pullFull', async () => {
+        await executeSync(outputChannel, true, true);
+    });
+
+    // Sync File command (editor tab context menu)
+    const syncFileCmd = vscode.commands.registerCommand('wwsync.syncFile', async (uri?: vscode.Uri) => {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!target || target.scheme !== 'file') {
+            vscode.window.showErrorMessage('No local file selected.');
+            return;
+        }
+        await executeSyncPaths(outputChannel, [target]);
+    });
+
+    // Sync Selection command (Explorer context menu)
+    const syncSelectionCmd = vscode.commands.registerCommand('wwsync.syncSelection', async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        const targets = (uris && uris.length > 0 ? uris : uri ? [uri] : []).filter(u => u.scheme === 'file');
+        if (targets.length === 0) {
+            vscode.window.showErrorMessage('No local files selected.');
+            return;
+        }
+        await executeSyncPaths(outputChannel, targets);
+    });
+
+    // Compare with Remote command (editor tab and Explorer context menus)
+    remoteFs = new RemoteFileSystemProvider(context, sessionState, credentials);
+    // Callers that already know the server (e.g. the drift report) pass its alias and mapping
+    const compareWithRemoteCmd = vscode.commands.registerCommand('wwsync.compareWithRemote', async (uri?: vscode.Uri, serverAlias?: unknown, mapping?: Mapping) => {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!target || target.scheme !== 'file') {
+            vscode.window.showErrorMessage('No local file selected.');
+            return;
+        }
+        // Menus pass other arguments here (e.g. the selected files), only a server alias counts
+        await executeCompareWithRemote(target, typeof serverAlias === 'string' && mapping ? { serverAlias, mapping } : undefined);
+    });
+
+    // Snapshot commands (mappings with "snapshots" enabled)
+    const listSnapshotsCmd = vscode.commands.registerCommand('wwsync.listSnapshots', async () => {
+        await executeRestoreSnapshot(outputChannel, false);
+    });
+    const restoreSnapshotCmd = vscode.commands.registerCommand('wwsync.restoreSnapshot', async () => {
+        await executeRestoreSnapshot(outputChannel, true);
+    });
+
+    // Named remote commands of a mapping ('WWSync: Run Command' and the status bar menu)
+    const runSync: SyncRunner = (job, channel, token) => runSyncJob(channel ?? outputChannel, job, token);
+    const remoteCommands = new RemoteCommands(context, outputChannel, sessionState, credentials, runSync);
+
+    // 'wwsync' tasks for syncs and remote commands (tasks.json and 'Tasks: Run Task')
+    new SyncTaskProvider(context, remoteCommands, runSync);
+
+    // Show Excluded Files command
+    const showExcludedCmd = vscode.commands.registerCommand('wwsync.showExcludedFiles', async () => {
+        await executeShowExcluded(outputChannel);
+    });
+
     // Run command
     const runCmd = vscode.commands.registerCommand('wwsync.run', async () => {
         await executeRun(outputChannel);
     });
 
+    // Sync Group command
+    const groupSync = new GroupSync(outputChannel, sessionState, credentials, history, syncReview, jobQueue);
+    const syncGroupCmd = vscode.commands.registerCommand('wwsync.syncGroup', async () => {
+        try {
+            const currentPath = await getCurrentWorkspaceFolder();
+            if (!currentPath) {
+                vscode.window.showErrorMessage('No workspace folder found. Please open a folder first.');
+                return;
+            }
+            await groupSync.run(currentPath);
+        } catch (error: any) {
+            showError(error);
+        }
+    });
+
     // Show Menu command
     const showMenuCmd = vscode.commands.registerCommand('wwsync.showMenu', async () => {
         await statusBar.showMenu();
     });
 
-    context.subscriptions.push(safeSyncCmd, fullSyncCmd, runCmd, showMenuCmd, outputChannel);
+    // Auto Sync
+    const autoSync = new AutoSyncManager(outputChannel, sessionState, credentials, history, jobQueue);
+    autoSync.refresh();
+
+    const toggleAutoSyncCmd = vscode.commands.registerCommand('wwsync.toggleAutoSync', () => {
+        const paused = !sessionState.isAutoSyncPaused();
+        sessionState.setAutoSyncPaused(paused);
+        vscode.window.setStatusBarMessage(paused ? 'WWSync: Auto sync paused.' : 'WWSync: Auto sync resumed.', 3000);
+    });
+
+    // Rebuild watchers when the config file changes
+    const configDir = path.dirname(getConfigPath());
+    const configWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(configDir), path.basename(getConfigPath()))
+    );
+    const projectConfigWatcher = vscode.workspace.createFileSystemWatcher(`**/${PROJECT_CONFIG_FILE}`);
+    const onConfigChanged = () => {
+        configDiagnostics.refresh();
+        autoSync.refresh();
+        serversView.refresh();
+    };
+    for (const watcher of [configWatcher, projectConfigWatcher]) {
+        watcher.onDidChange(onConfigChanged);
+        watcher.onDidCreate(onConfigChanged);
+        watcher.onDidDelete(onConfigChanged);
+    }
+
+    // Project configs are only read in a trusted workspace
+    const trustListener = vscode.workspace.onDidGrantWorkspaceTrust(onConfigChanged);
+
+    context.subscriptions.push(forgetCredentialsCmd, driftPullCmd, rerunCmd, safeSyncCmd, fullSyncCmd, pullSafeCmd, pullFullCmd, syncFileCmd, syncSelectionCmd, compareWithRemoteCmd, listSnapshotsCmd, restoreSnapshotCmd, showExcludedCmd, syncGroupCmd, runCmd, showMenuCmd, toggleAutoSyncCmd, autoSync, configWatcher, projectConfigWatcher, trustListener, outputChannel);
+}
+
+async function showError(error: any) {
+    if (error instanceof ConfigError) {
+        const action = await vscode.window.showErrorMessage(`WWSync Error: ${error.message}`, 'Open Config');
+        if (action === 'Open Config') {
+            await configDiagnostics.openConfig(error.filePath);
+        }
+        return;
+    }
+    vscode.window.showErrorMessage(`WWSync Error: ${error.message}`);
 }
 
 async function getCurrentWorkspaceFolder(): Promise<string | undefined> {
@@ -70,9 +252,7 @@ async function getCurrentWorkspaceFolder(): Promise<string | undefined> {
     return picked?.folder.uri.fsPath;
 }
 
-async function executeSync(outputChannel: vscode.OutputChannel, fullSync: boolean) {
-    const askPassManager = new AskPassManager(sessionState);
-    let env: NodeJS.ProcessEnv | undefined;
+async function executeSync(outputChannel: vscode.OutputChannel, fullSync: boolean, pull: boolean = false) {
     try {
         const currentPath = await getCurrentWorkspaceFolder();
         if (!currentPath) {
@@ -92,22 +272,12 @@ async function executeSync(outputChannel: vscode.OutputChannel, fullSync: boolea
         const serverAlias = serverResult.serverAlias;
         const serverConfig = config.servers[serverAlias];
 
-        // Ensure session state is updated if it was a new selection (selectServer handles this for interactions but good to be safe)
-        // actually selectServer handles it if "Remember" is clicked, but if we have a single server or auto-picked, we might want to ensure status bar knows?
-        // selectServer updates sessionState if user says "Remember". 
-        // If we just picked one for this run, maybe we should also update session state lightly? 
-        // Request says "uses one and the same remembered states".
-        // Let's assume selectServer logic is sufficient.
-
-        // If the user selected a server in the flow, updating the status bar to reflect that "active" server 
-        // for the current action might be nice, but the requirement is "Default server in this directory... remembered state".
-        // So update only if we want to "remember" it. 
-        // If the user selected "Remember for this session", selectServer called sessionState.set().
-
-        // However, if we simply executed a command, the status bar might still show "WWSync" if no default is set. This is fine.
+        // The config merges ~/.wwsync with the project configs of the workspace folders. A server or
+        // mapping created here is saved to the file picked for it (see pickConfigLocation). A server
+        // picked from several is only remembered for the session when the user asks for it.
 
         // Select or create mapping
-        const mappingResult = await selectOrCreateMapping(config, serverAlias, currentPath);
+        const mappingResult = await selectOrCreateMapping(config, serverAlias, currentPath, sessionState);
         if (!mappingResult) {
             return; // User cancelled
         }
@@ -115,31 +285,435 @@ async function executeSync(outputChannel: vscode.OutputChannel, fullSync: boolea
         config = mappingResult.config;
         const mapping = mappingResult.mapping;
 
+        const command: SyncCommand = pull
+            ? (fullSync ? 'pullFull' : 'pullSafe')
+            : (fullSync ? 'fullSync' : 'safeSync');
 
-        // Prepare AskPass
+        await runSyncJob(outputChannel, { command, serverAlias, server: serverConfig, mapping: resolveMapping(serverConfig, mapping) });
+    } catch (error: any) {
+        showError(error);
+    }
+}
+
+/**
+ * Runs a resolved sync job with AskPass, a progress notification and history recording.
+ * `cancellation` cancels it from outside, e.g. when its task is terminated.
+ */
+async function runSyncJob(outputChannel: vscode.OutputChannel, job: SyncJob, cancellation?: vscode.CancellationToken): Promise<SyncSummary | undefined> {
+    // Waits for earlier jobs of the same mapping; AskPass is only started once it is this job's turn
+    return jobQueue.run(job, async queueToken => {
+        if (cancellation?.isCancellationRequested) {
+            return undefined;
+        }
         try {
-            env = await askPassManager.prepare();
-        } catch (err) {
-            console.error('Failed to prepare AskPass manager', err);
+            return await withAskPass(sessionState, credentials, job.serverAlias, async env => {
+                outputChannel.show(true);
+
+                const title = job.command === 'syncFiles' && job.files?.length === 1
+                    ? `WWSync: Sync ${path.basename(job.files[0])}`
+                    : job.command === 'pullFiles' && job.files?.length === 1
+                        ? `WWSync: Pull ${path.basename(job.files[0])}`
+                        : `WWSync: ${SYNC_COMMAND_TITLES[job.command]}`;
+
+                return await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title,
+                    cancellable: true
+                }, async (progress, progressToken) => {
+                    // Cancelled from the notification, by 'WWSync: Cancel All' or by the caller
+                    const combined = anyCancellation(progressToken, queueToken, ...(cancellation ? [cancellation] : []));
+                    const token = combined.token;
+                    return history.track(job, outputChannel, async channel => {
+                        switch (job.command) {
+                            case 'pullSafe':
+                            case 'pullFiles':
+                                return runSafePull(channel, job.server, job.mapping, token, env, job.files, progress);
+                            case 'pullFull':
+                                return runFullPull(channel, job.server, job.mapping, token, env, progress);
+                            case 'restoreSnapshot':
+                                return restoreSnapshot(channel, job.server, job.mapping, job.snapshot!, token, env);
+                        }
+
+                        // Uploads run the mapping's hooks around the transfer; for a Full Sync only once it is confirmed
+                        const preSync = () => runHooks(channel, job.server, job.mapping, 'pre', token, env, progress);
+                        let summary: SyncSummary | undefined;
+                        if (job.command === 'fullSync') {
+                            summary = await runFullSync(channel, job.server, job.mapping, token, env, syncReview, progress, preSync);
+                        } else {
+                            await preSync();
+                            summary = await runSafeSync(channel, job.server, job.mapping, token, env, job.files, progress);
+                        }
+                        if (summary) {
+                            await runHooks(channel, job.server, job.mapping, 'post', token, env, progress);
+                        }
+                        return summary;
+                    }, token).finally(() => combined.dispose());
+                });
+            });
+        } finally {
+            // The last drift check of this mapping is outdated now
+            drift.recheck(job.mapping.local);
         }
+    });
+}
 
-        outputChannel.show(true);
+/**
+ * Re-runs a history entry against the current config of its server and mapping.
+ */
+async function rerunHistoryEntry(outputChannel: vscode.OutputChannel, entry: SyncHistoryEntry) {
+    try {
+        const config = loadConfig();
+        const serverConfig = config.servers[entry.serverAlias];
+        const mapping = serverConfig?.mappings.find(m => m.local === entry.local && m.remote === entry.remote);
+        if (!serverConfig || !mapping) {
+            vscode.window.showErrorMessage(`Mapping ${entry.local} -> ${entry.serverAlias}:${entry.remote} no longer exists.`);
+            return;
+        }
 
-        await vscode.window.withProgress({
+        if (entry.command === 'restoreSnapshot') {
+            vscode.window.showInformationMessage('A restore can\'t be re-run; its snapshots were removed. Use "WWSync: Restore Snapshot" to pick another one.');
+            return;
+        }
+
+        // Auto sync entries are re-run as a regular upload of the same files
+        const command: SyncCommand = entry.command === 'autoSync' ? 'syncFiles' : entry.command;
+        await runSyncJob(outputChannel, {
+            command,
+            serverAlias: entry.serverAlias,
+            server: serverConfig,
+            mapping: resolveMapping(serverConfig, mapping),
+            files: entry.files
+        });
+    } catch (error: any) {
+        showError(error);
+    }
+}
+
+async function executeSyncPaths(outputChannel: vscode.OutputChannel, uris: vscode.Uri[]) {
+    // Group selected paths by workspace folder, each folder resolves its own server and mapping
+    const groups = new Map<string, string[]>();
+    for (const uri of uris) {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder) {
+            vscode.window.showErrorMessage(`${uri.fsPath} is not inside a workspace folder.`);
+            return;
+        }
+        const paths = groups.get(folder.uri.fsPath) ?? [];
+        paths.push(uri.fsPath);
+        groups.set(folder.uri.fsPath, paths);
+    }
+
+    for (const paths of groups.values()) {
+        try {
+            // The selection itself decides the mapping, not its workspace folder (which may be unmapped)
+            const target = await selectTarget(getCommonFolder(paths), sessionState);
+            if (!target) {
+                return; // User cancelled
+            }
+
+            const serverConfig = target.config.servers[target.serverAlias];
+            const mapping = target.mapping;
+
+            const outside = paths.filter(p => getRelativePath(mapping.local, p) === undefined);
+            if (outside.length > 0) {
+                vscode.window.showErrorMessage(
+                    `${outside.map(p => path.basename(p)).join(', ')} ${outside.length === 1 ? 'is' : 'are'} outside of ${mapping.local}. Nothing was synced.`
+                );
+                continue;
+            }
+            const files = paths.map(p => getRelativePath(mapping.local, p) || '.');
+
+            await runSyncJob(outputChannel, {
+                command: 'syncFiles',
+                serverAlias: target.serverAlias,
+                server: serverConfig,
+                mapping: resolveMapping(serverConfig, mapping),
+                files
+            });
+        } catch (error: any) {
+            showError(error);
+        }
+    }
+}
+
+/**
+ * 'WWSync: List Snapshots' / 'WWSync: Restore Snapshot': picks a snapshot of the current mapping
+ * and rolls the remote folder back to its state before that Full Sync.
+ */
+async function executeRestoreSnapshot(outputChannel: vscode.OutputChannel, restore: boolean) {
+    try {
+        const currentPath = await getCurrentWorkspaceFolder();
+        if (!currentPath) {
+            vscode.window.showErrorMessage('No workspace folder found. Please open a folder first.');
+            return;
+        }
+
+        const target = await selectTarget(currentPath, sessionState);
+        if (!target) {
+            return; // User cancelled
+        }
+        const serverConfig = target.config.servers[target.serverAlias];
+        const mapping = resolveMapping(serverConfig, target.mapping);
+        if (!getSnapshotDir(mapping)) {
+            vscode.window.showErrorMessage(`Snapshots are not enabled for ${mapping.local}. Set "snapshots": true on the mapping.`);
+            return;
+        }
+
+        const snapshots = await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
-            title: fullSync ? 'WWSync: Full Sync' : 'WWSync: Safe Sync',
+            title: `WWSync: Loading snapshots from ${target.serverAlias}`,
             cancellable: true
-        }, async (progress, token) => {
-            if (fullSync) {
-                await runFullSync(outputChannel, serverConfig.host, mapping, token, env);
-            } else {
-                await runSafeSync(outputChannel, serverConfig.host, mapping, token, env);
+        }, async (_progress, token) => {
+            try {
+                return await withAskPass(sessionState, credentials, target.serverAlias,
+                    env => listSnapshots(serverConfig, mapping, token, env));
+            } catch (error) {
+                if (token.isCancellationRequested) {
+                    return undefined;
+                }
+                throw error;
             }
         });
+        if (!snapshots) {
+            return; // User cancelled
+        }
+        if (snapshots.length === 0) {
+            vscode.window.showInformationMessage(`No snapshots of ${target.serverAlias}:${mapping.remote} yet. They are taken by Full Sync.`);
+            return;
+        }
+
+        const formatTime = (snapshot: Snapshot) => snapshot.manifest
+            ? new Date(snapshot.manifest.createdAt).toLocaleString()
+            : snapshot.name;
+        const describe = (snapshot: Snapshot) => {
+            const manifest = snapshot.manifest;
+            return manifest
+                ? `${snapshot.files} file(s) kept · ${manifest.created.length} added, ${manifest.modified} modified, ${manifest.deleted} deleted`
+                : `${snapshot.files} file(s) kept`;
+        };
+        const picked = await vscode.window.showQuickPick(
+            snapshots.map(snapshot => ({
+                label: `$(history) ${formatTime(snapshot)}`,
+                description: describe(snapshot),
+                detail: snapshot.name,
+                snapshot
+            })),
+            {
+                placeHolder: restore
+                    ? 'Select the Full Sync to roll back (later syncs are rolled back too)'
+                    : `Snapshots of ${target.serverAlias}:${mapping.remote}, newest first. Select one to restore it.`
+            }
+        );
+        if (!picked) {
+            return;
+        }
+
+        const count = snapshots.indexOf(picked.snapshot) + 1;
+        const confirm = await vscode.window.showWarningMessage(
+            `Roll ${target.serverAlias}:${mapping.remote} back to its state before the Full Sync of ${formatTime(picked.snapshot)}?`,
+            {
+                modal: true,
+                detail: `${count} snapshot(s) will be applied and then removed. Files added by these syncs are deleted on the server.`
+            },
+            'Restore'
+        );
+        if (confirm !== 'Restore') {
+            return;
+        }
+
+        await runSyncJob(outputChannel, {
+            command: 'restoreSnapshot',
+            serverAlias: target.serverAlias,
+            server: serverConfig,
+            mapping,
+            snapshot: picked.snapshot.name
+        });
     } catch (error: any) {
-        vscode.window.showErrorMessage(`WWSync Error: ${error.message}`);
+        showError(error);
+    }
+}
+
+function isBinaryFile(filePath: string): boolean {
+    // Same heuristic as git: a NUL byte in the first 8000 bytes
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        const buffer = Buffer.alloc(8000);
+        const length = fs.readSync(fd, buffer, 0, buffer.length, 0);
+        return buffer.subarray(0, length).includes(0);
     } finally {
-        askPassManager.cleanup();
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * Opens the diff editor between a local file and its copy on the server of its mapping.
+ * Binary files are only compared byte by byte; files over the size limit are not opened.
+ */
+async function executeCompareWithRemote(uri: vscode.Uri, preset?: { serverAlias: string; mapping: Mapping }) {
+    try {
+        const localStat = fs.statSync(uri.fsPath);
+        if (!localStat.isFile()) {
+            vscode.window.showErrorMessage(`${uri.fsPath} is not a file.`);
+            return;
+        }
+
+        const target = preset ?? await selectTarget(path.dirname(uri.fsPath), sessionState);
+        if (!target) {
+            return; // User cancelled
+        }
+
+        const name = getRelativePath(target.mapping.local, uri.fsPath);
+        if (!name) {
+            vscode.window.showErrorMessage(`${uri.fsPath} is outside of ${target.mapping.local}.`);
+            return;
+        }
+
+        const remoteUri = toRemoteUri(target.serverAlias, getRemotePath(target.mapping, uri.fsPath));
+        const maxSize = getMaxFileSize();
+        const binary = isBinaryFile(uri.fsPath);
+
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `WWSync: Fetching ${path.basename(uri.fsPath)} from ${target.serverAlias}`,
+            cancellable: true
+        }, async (_progress, token) => {
+            try {
+                const remote = await remoteFs.statRemote(remoteUri, token);
+                // Binary content is compared here, text is read by the diff editor
+                const content = binary && remote.type === 'file' && remote.size <= maxSize && localStat.size <= maxSize
+                    ? await remoteFs.readRemote(remoteUri, token)
+                    : undefined;
+                return token.isCancellationRequested ? undefined : { remote, content };
+            } catch (error) {
+                if (token.isCancellationRequested) {
+                    return undefined;
+                }
+                throw error;
+            }
+        });
+        if (!result) {
+            return; // User cancelled
+        }
+
+        const { remote, content } = result;
+        if (remote.type === 'missing') {
+            vscode.window.showWarningMessage(`${name} does not exist on ${target.serverAlias}.`);
+            return;
+        }
+        if (remote.type === 'directory') {
+            vscode.window.showErrorMessage(`${name} is a directory on ${target.serverAlias}.`);
+            return;
+        }
+        if (remote.size > maxSize || localStat.size > maxSize) {
+            vscode.window.showWarningMessage(
+                `${name} is too large to compare (local ${formatBytes(localStat.size)}, remote ${formatBytes(remote.size)}). ` +
+                `The limit is set by 'wwsync.compareMaxFileSize'.`
+            );
+            return;
+        }
+        if (content) {
+            const identical = Buffer.from(content).equals(fs.readFileSync(uri.fsPath));
+            vscode.window.showInformationMessage(identical
+                ? `Binary file ${name} is identical on ${target.serverAlias}.`
+                : `Binary file ${name} differs on ${target.serverAlias} (local ${formatBytes(localStat.size)}, remote ${formatBytes(remote.size)}).`
+            );
+            return;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            remoteUri,
+            uri,
+            `${name} (${target.serverAlias} ↔ Local)`
+        );
+    } catch (error: any) {
+        showError(error);
+    }
+}
+
+/**
+ * Forgets cached and stored credentials of one server, or of all servers after asking.
+ */
+async function forgetCredentials(serverAlias?: string) {
+    if (!serverAlias) {
+        let aliases = credentials.getServers();
+        try {
+            aliases = [...new Set([...Object.keys(loadConfig().servers), ...aliases])];
+        } catch {
+            // An invalid config still leaves the stored credentials to choose from
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            [
+                { label: '$(trash) All servers', alias: undefined },
+                ...aliases.map(alias => ({
+                    label: alias,
+                    description: credentials.getServers().includes(alias) ? 'stored' : undefined,
+                    alias
+                }))
+            ],
+            { placeHolder: 'Forget saved passwords and passphrases for...' }
+        );
+        if (!picked) {
+            return;
+        }
+        serverAlias = picked.alias;
+    }
+
+    sessionState.resetPasswords(serverAlias);
+    await credentials.forget(serverAlias);
+    vscode.window.showInformationMessage(serverAlias
+        ? `WWSync: Credentials for '${serverAlias}' forgotten.`
+        : 'WWSync: All credentials forgotten.');
+}
+
+async function executeShowExcluded(outputChannel: vscode.OutputChannel) {
+    try {
+        const currentPath = await getCurrentWorkspaceFolder();
+        if (!currentPath) {
+            vscode.window.showErrorMessage('No workspace folder found. Please open a folder first.');
+            return;
+        }
+
+        const target = await selectTarget(currentPath, sessionState);
+        if (!target) {
+            return;
+        }
+        const mapping = target.mapping;
+
+        const entries = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'WWSync: Checking exclusion rules',
+            cancellable: true
+        }, (progress, token) => listExcludedFiles(mapping, token));
+
+        outputChannel.appendLine('');
+        outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+        outputChannel.appendLine(`>>> Excluded from sync: ${mapping.local}`);
+        outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+        entries.forEach(e => outputChannel.appendLine(`  - ${e.path}${e.isDirectory ? '/' : ''}  (pattern: ${e.pattern})`));
+        outputChannel.appendLine(`Total excluded entries: ${entries.length} (contents of excluded folders are not listed)`);
+        outputChannel.show(true);
+
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('No local files are excluded from sync.');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            entries.map(e => ({
+                label: `${e.isDirectory ? '$(folder)' : '$(file)'} ${e.path}`,
+                description: `pattern: ${e.pattern}`,
+                entry: e
+            })),
+            { placeHolder: `${entries.length} excluded file(s)/folder(s) — select one to reveal it` }
+        );
+        if (picked) {
+            const uri = vscode.Uri.file(path.join(mapping.local, picked.entry.path));
+            await vscode.commands.executeCommand('revealInExplorer', uri);
+        }
+    } catch (error: any) {
+        showError(error);
     }
 }
 
@@ -164,7 +738,7 @@ async function executeRun(outputChannel: vscode.OutputChannel) {
         const serverConfig = config.servers[serverAlias];
 
         // Select or create mapping
-        const mappingResult = await selectOrCreateMapping(config, serverAlias, currentPath);
+        const mappingResult = await selectOrCreateMapping(config, serverAlias, currentPath, sessionState);
         if (!mappingResult) {
             return;
         }
@@ -172,10 +746,14 @@ async function executeRun(outputChannel: vscode.OutputChannel) {
         const mapping = mappingResult.mapping;
         const shellType = serverConfig.shell || 'bash';
 
-        runRemoteSession(serverConfig.host, mapping.remote, shellType);
+        // A subfolder of the mapping opens the session in the matching remote folder
+        runRemoteSession(serverConfig, getRemotePath(mapping, currentPath), shellType);
     } catch (error: any) {
-        vscode.window.showErrorMessage(`WWSync Error: ${error.message}`);
+        showError(error);
     }
 }
 
-export function deactivate() { }
+export function deactivate() {
+    // Don't leave rsync or ssh running after VS Code closes
+    killAllProcesses();
+}
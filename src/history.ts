@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SyncSummary } from './progress';
+import { RsyncError } from './rsync';
+import { HookError } from './hooks';
+import { SyncCommand, SyncJob, SYNC_COMMAND_TITLES } from './syncJob';
+
+const STORAGE_KEY = 'wwsync.history';
+const MAX_ENTRIES = 100;
+
+export interface SyncHistoryEntry {
+    id: string;
+    command: SyncCommand;
+    serverAlias: string;
+    host: string;
+    local: string;
+    remote: string;
+    files?: string[];
+    startTime: number;
+    endTime: number;
+    status: 'success' | 'failed' | 'cancelled';
+    exitCode: number | null;
+    filesTransferred?: number;
+    filesDeleted?: number;
+    commandLine?: string;
+}
+
+/**
+ * Output channel that forwards everything to the real channel and keeps a copy for the history log.
+ */
+class CapturingOutputChannel implements vscode.OutputChannel {
+    public log = '';
+
+    constructor(private target: vscode.OutputChannel) { }
+
+    get name(): string {
+        return this.target.name;
+    }
+
+    append(value: string): void {
+        this.log += value;
+        this.target.append(value);
+    }
+
+    appendLine(value: string): void {
+        this.log += value + '\n';
+        this.target.appendLine(value);
+    }
+
+    replace(value: string): void {
+        this.log = value;
+        this.target.replace(value);
+    }
+
+    clear(): void {
+        this.target.clear();
+    }
+
+    show(columnOrPreserveFocus?: vscode.ViewColumn | boolean, preserveFocus?: boolean): void {
+        if (typeof columnOrPreserveFocus === 'boolean') {
+            this.target.show(columnOrPreserveFocus);
+        } else {
+            this.target.show(columnOrPreserveFocus, preserveFocus);
+        }
+    }
+
+    hide(): void {
+        this.target.hide();
+    }
+
+    dispose(): void {
+        // The underlying channel is owned by the extension
+    }
+}
+
+/**
+ * Records every sync in extension storage and shows it in the "WWSync History" view.
+ */
+export class SyncHistory implements vscode.TreeDataProvider<SyncHistoryEntry> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<SyncHistoryEntry | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private logDir: string;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.logDir = path.join(context.globalStorageUri.fsPath, 'logs');
+
+        context.subscriptions.push(
+            vscode.window.createTreeView('wwsync.history', { treeDataProvider: this }),
+            vscode.commands.registerCommand('wwsync.history.openLog', (entry: SyncHistoryEntry) => this.openLog(entry)),
+            vscode.commands.registerCommand('wwsync.history.copyCommand', (entry: SyncHistoryEntry) => this.copyCommand(entry)),
+            vscode.commands.registerCommand('wwsync.history.clear', () => this.clear())
+        );
+    }
+
+    public getEntries(): SyncHistoryEntry[] {
+        return this.context.globalState.get<SyncHistoryEntry[]>(STORAGE_KEY, []);
+    }
+
+    /**
+     * Runs a sync with a capturing output channel and records the outcome.
+     */
+    public async track(
+        job: SyncJob,
+        outputChannel: vscode.OutputChannel,
+        run: (channel: vscode.OutputChannel) => Promise<SyncSummary | undefined>,
+        token?: vscode.CancellationToken
+    ): Promise<SyncSummary | undefined> {
+        const channel = new CapturingOutputChannel(outputChannel);
+        const entry: SyncHistoryEntry = {
+            id: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+            command: job.command,
+            serverAlias: job.serverAlias,
+            host: job.server.host ?? 'local',
+            local: job.mapping.local,
+            remote: job.mapping.remote,
+            files: job.files,
+            startTime: Date.now(),
+            endTime: 0,
+            status: 'success',
+            exitCode: 0
+        };
+
+        try {
+            const summary = await run(channel);
+            if (summary) {
+                entry.filesTransferred = summary.filesTransferred;
+                entry.filesDeleted = summary.filesDeleted;
+                entry.commandLine = summary.commandLine;
+            } else {
+                // Cancelled before the transfer started (e.g. declined confirmation)
+                entry.status = 'cancelled';
+                entry.exitCode = null;
+            }
+            return summary;
+        } catch (error) {
+            entry.status = token?.isCancellationRequested ? 'cancelled' : 'failed';
+            if (error instanceof RsyncError) {
+                entry.exitCode = error.exitCode;
+                entry.commandLine = error.commandLine;
+            } else if (error instanceof HookError) {
+                entry.exitCode = error.exitCode;
+            } else {
+                entry.exitCode = null;
+            }
+            throw error;
+        } finally {
+            entry.endTime = Date.now();
+            await this.add(entry, channel.log);
+        }
+    }
+
+    private async add(entry: SyncHistoryEntry, log: string) {
+        try {
+            fs.mkdirSync(this.logDir, { recursive: true });
+            fs.writeFileSync(this.getLogPath(entry), log, 'utf-8');
+        } catch (err) {
+            console.error('Failed to write sync log', err);
+        }
+
+        const entries = [entry, ...this.getEntries()];
+        for (const removed of entries.splice(MAX_ENTRIES)) {
+            try { fs.unlinkSync(this.getLogPath(removed)); } catch {}
+        }
+
+        await this.context.globalState.update(STORAGE_KEY, entries);
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private async clear() {
+        const answer = await vscode.window.showWarningMessage(
+            'Clear the WWSync history?',
+            { modal: true },
+            'Clear'
+        );
+        if (answer !== 'Clear') {
+            return;
+        }
+
+        for (const entry of this.getEntries()) {
+            try { fs.unlinkSync(this.getLogPath(entry)); } catch {}
+        }
+        await this.context.globalState.update(STORAGE_KEY, []);
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private getLogPath(entry: SyncHistoryEntry): string {
+        return path.join(this.logDir, `${entry.id}.log`);
+    }
+
+    private async openLog(entry: SyncHistoryEntry) {
+        const logPath = this.getLogPath(entry);
+        if (!fs.existsSync(logPath)) {
+            vscode.window.showErrorMessage('Log for this sync is no longer available.');
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument(logPath);
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    private async copyCommand(entry: SyncHistoryEntry) {
+        if (!entry.commandLine) {
+            vscode.window.showInformationMessage('No rsync command was run for this entry.');
+            return;
+        }
+        await vscode.env.clipboard.writeText(entry.commandLine);
+        vscode.window.setStatusBarMessage('WWSync: rsync command copied to clipboard.', 3000);
+    }
+
+    public getChildren(element?: SyncHistoryEntry): SyncHistoryEntry[] {
+        return element ? [] : this.getEntries();
+    }
+
+    public getTreeItem(entry: SyncHistoryEntry): vscode.TreeItem {
+        const title = SYNC_COMMAND_TITLES[entry.command];
+        const item = new vscode.TreeItem(`${title} → ${entry.serverAlias}`, vscode.TreeItemCollapsibleState.None);
+        const started = new Date(entry.startTime);
+        const duration = ((entry.endTime - entry.startTime) / 1000).toFixed(1);
+
+        item.id = entry.id;
+        item.description = `${path.basename(entry.local)} · ${started.toLocaleString()}`;
+        item.contextValue = 'historyEntry';
+        item.iconPath = entry.status === 'success'
+            ? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+            : entry.status === 'failed'
+                ? new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'))
+                : new vscode.ThemeIcon('circle-slash');
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${title}** — ${entry.status}\n\n`);
+        tooltip.appendMarkdown(`- Server: ${entry.serverAlias} (\`${entry.host}\`)\n`);
+        tooltip.appendMarkdown(`- Mapping: \`${entry.local}\` → \`${entry.remote}\`\n`);
+        tooltip.appendMarkdown(`- Started: ${started.toLocaleString()} (${duration}s)\n`);
+        tooltip.appendMarkdown(`- Exit code: ${entry.exitCode ?? '—'}\n`);
+        if (entry.filesTransferred !== undefined) {
+            tooltip.appendMarkdown(`- Files: ${entry.filesTransferred} transferred, ${entry.filesDeleted ?? 0} deleted\n`);
+        }
+        item.tooltip = tooltip;
+
+        item.command = {
+            command: 'wwsync.history.openLog',
+            title: 'Open Log',
+            arguments: [entry]
+        };
+        return item;
+    }
+}
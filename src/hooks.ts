@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import { Mapping } from './config';
+import { ProgressReporter } from './progress';
+import { SshTarget, buildRemoteCommand, getRemoteLocation, quoteRemotePath } from './ssh';
+import { spawnProcess, killProcess } from './processes';
+
+export type HookPhase = 'pre' | 'post';
+
+export class HookError extends Error {
+    constructor(message: string, public phase: HookPhase, public command: string, public exitCode: number | null) {
+        super(message);
+    }
+}
+
+interface Hook {
+    command: string;
+    /** Runs on the server in mapping.remote, otherwise locally in mapping.local */
+    remote: boolean;
+}
+
+function getHooks(mapping: Mapping, phase: HookPhase): Hook[] {
+    if (phase === 'pre') {
+        return [
+            ...(mapping.localPreSync ?? []).map(command => ({ command, remote: false })),
+            ...(mapping.preSync ?? []).map(command => ({ command, remote: true }))
+        ];
+    }
+    return (mapping.postSync ?? []).map(command => ({ command, remote: true }));
+}
+
+/**
+ * Runs a command and streams its output line by line into the output channel.
+ */
+export function runCommand(
+    outputChannel: vscode.OutputChannel,
+    command: string,
+    args: string[],
+    options: cp.SpawnOptions,
+    token?: vscode.CancellationToken
+): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+        // No stdin: a command waiting for input would hang the sync
+        const proc = spawnProcess(command, args, { ...options, stdio: ['ignore', 'pipe', 'pipe'] });
+
+        const cancellation = token?.onCancellationRequested(() => killProcess(proc));
+
+        let pending = '';
+        const onData = (data: Buffer) => {
+            const lines = (pending + data.toString()).split(/\r?\n/);
+            pending = lines.pop() ?? '';
+            lines.forEach(line => outputChannel.appendLine(`  │ ${line}`));
+        };
+        proc.stdout!.on('data', onData);
+        proc.stderr!.on('data', onData);
+
+        proc.on('close', (code: number | null) => {
+            cancellation?.dispose();
+            if (pending) {
+                outputChannel.appendLine(`  │ ${pending}`);
+            }
+            resolve(code);
+        });
+
+        proc.on('error', (err: Error) => {
+            cancellation?.dispose();
+            reject(err);
+        });
+    });
+}
+
+/**
+ * Runs the pre-sync (local, then remote) or post-sync hooks of a mapping, in order.
+ * The first failing hook stops the rest and rejects with a HookError.
+ */
+export async function runHooks(
+    outputChannel: vscode.OutputChannel,
+    server: SshTarget,
+    mapping: Mapping,
+    phase: HookPhase,
+    token?: vscode.CancellationToken,
+    env?: NodeJS.ProcessEnv,
+    progress?: ProgressReporter
+): Promise<void> {
+    const hooks = getHooks(mapping, phase);
+    const phaseName = phase === 'pre' ? 'Pre-sync' : 'Post-sync';
+
+    for (const [i, hook] of hooks.entries()) {
+        if (token?.isCancellationRequested) {
+            throw new HookError(`${phaseName} hooks cancelled.`, phase, hook.command, null);
+        }
+
+        const where = hook.remote ? getRemoteLocation(server, mapping.remote) : 'local';
+        outputChannel.appendLine('');
+        outputChannel.appendLine(`>>> ${phaseName} hook ${i + 1}/${hooks.length} (${where}): ${hook.command}`);
+        progress?.report({ message: `${phaseName} hook ${i + 1}/${hooks.length}: ${hook.command}` });
+
+        let code: number | null;
+        try {
+            code = hook.remote
+                ? await runCommand(
+                    outputChannel,
+                    ...buildRemoteCommand(server, `cd ${quoteRemotePath(mapping.remote)} && ${hook.command}`),
+                    { env: { ...process.env, ...env } },
+                    token
+                )
+                : await runCommand(
+                    outputChannel,
+                    hook.command,
+                    [],
+                    { cwd: mapping.local, shell: true, env: { ...process.env, ...env } },
+                    token
+                );
+        } catch (error: any) {
+            code = null;
+            outputChannel.appendLine(`Error: ${error.message}`);
+        }
+
+        if (code !== 0) {
+            const reason = token?.isCancellationRequested ? 'was cancelled' : `failed with code ${code}`;
+            outputChannel.appendLine(`✖ ${phaseName} hook ${reason}: ${hook.command}`);
+            progress?.report({ message: `✖ ${phaseName} hook ${reason}: ${hook.command}` });
+            const consequence = phase === 'pre' ? ' Sync aborted.' : ' The files were synced.';
+            throw new HookError(`${phaseName} hook '${hook.command}' ${reason}.${consequence}`, phase, hook.command, code);
+        }
+        outputChannel.appendLine(`✔ ${phaseName} hook completed.`);
+    }
+}
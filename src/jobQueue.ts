@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { SyncJob, SYNC_COMMAND_TITLES } from './syncJob';
+import { killAllProcesses } from './processes';
+
+export interface QueuedJob {
+    id: number;
+    job: SyncJob;
+    state: 'queued' | 'running';
+}
+
+interface QueueEntry extends QueuedJob {
+    key: string;
+    source: vscode.CancellationTokenSource;
+    promise: Promise<unknown>;
+    /** Settles when the entry is finished, whatever the outcome */
+    done: Promise<void>;
+}
+
+/**
+ * Jobs for the same mapping share a key: the same server and the same local and remote folder.
+ */
+function getMappingKey(job: SyncJob): string {
+    return `${job.serverAlias}\n${job.mapping.local}\n${job.mapping.remote}`;
+}
+
+function isSameRequest(a: SyncJob, b: SyncJob): boolean {
+    const files = (job: SyncJob) => job.files ? [...job.files].sort().join('\n') : undefined;
+    return a.command === b.command && files(a) === files(b);
+}
+
+/**
+ * A token that is cancelled as soon as any of the given tokens is. Dispose it when the work is done,
+ * so the given tokens (e.g. the long-lived caller's) do not keep a listener for every run.
+ */
+export function anyCancellation(...tokens: vscode.CancellationToken[]): { token: vscode.CancellationToken; dispose(): void } {
+    const source = new vscode.CancellationTokenSource();
+    const listeners = tokens.map(token => token.onCancellationRequested(() => source.cancel()));
+    if (tokens.some(token => token.isCancellationRequested)) {
+        source.cancel();
+    }
+    return {
+        token: source.token,
+        dispose: () => {
+            listeners.forEach(listener => listener.dispose());
+            source.dispose();
+        }
+    };
+}
+
+/**
+ * Runs sync jobs one after another per mapping, so two rsync processes never write to the same
+ * destination; jobs for different mappings still run side by side. A request identical to one
+ * that is still waiting is merged into it.
+ */
+export class SyncJobQueue {
+    private entries: QueueEntry[] = [];
+    private nextId = 1;
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(context: vscode.ExtensionContext) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('wwsync.cancelAll', () => this.cancelAll())
+        );
+    }
+
+    public getJobs(): QueuedJob[] {
+        return this.entries.map(({ id, job, state }) => ({ id, job, state }));
+    }
+
+    /**
+     * Runs a job once the jobs queued before it for the same mapping are finished.
+     * Resolves with undefined when the job is cancelled before it starts.
+     */
+    public run<T>(job: SyncJob, task: (token: vscode.CancellationToken) => Promise<T>): Promise<T | undefined> {
+        const key = getMappingKey(job);
+        const title = SYNC_COMMAND_TITLES[job.command];
+
+        const duplicate = this.entries.find(e => e.key === key && e.state === 'queued' && isSameRequest(e.job, job));
+        if (duplicate) {
+            vscode.window.setStatusBarMessage(`WWSync: ${title} → ${job.serverAlias} is already queued.`, 3000);
+            return duplicate.promise as Promise<T | undefined>;
+        }
+
+        const previous = this.entries.filter(e => e.key === key).map(e => e.done);
+        if (previous.length > 0) {
+            vscode.window.setStatusBarMessage(`WWSync: ${title} → ${job.serverAlias} queued until the running sync of this mapping finishes.`, 5000);
+        }
+
+        const entry = { id: this.nextId++, job, key, state: 'queued', source: new vscode.CancellationTokenSource() } as QueueEntry;
+        entry.promise = (async () => {
+            // Nothing ahead: start right away, so an identical request right after isn't merged into a starting job
+            if (previous.length > 0) {
+                await Promise.all(previous);
+            }
+            if (entry.source.token.isCancellationRequested) {
+                return undefined;
+            }
+            entry.state = 'running';
+            this._onDidChange.fire();
+            return task(entry.source.token);
+        })();
+        entry.done = entry.promise.then(() => undefined, () => undefined).then(() => {
+            this.remove(entry);
+            entry.source.dispose();
+        });
+
+        this.entries.push(entry);
+        this._onDidChange.fire();
+        return entry.promise as Promise<T | undefined>;
+    }
+
+    /**
+     * Removes a queued job, or stops a running one (its rsync, ssh and hook processes are killed).
+     */
+    public cancel(id: number) {
+        const entry = this.entries.find(e => e.id === id);
+        if (!entry) {
+            return;
+        }
+        entry.source.cancel();
+        if (entry.state === 'queued') {
+            this.remove(entry);
+        }
+    }
+
+    /**
+     * 'WWSync: Cancel All': cancels every queued and running job and kills all remaining
+     * child processes (e.g. drift checks and remote file reads).
+     */
+    public cancelAll() {
+        const jobs = this.entries.length;
+        for (const entry of [...this.entries]) {
+            this.cancel(entry.id);
+        }
+        const processes = killAllProcesses();
+
+        // Processes include those of the cancelled jobs, and others like drift checks and remote file reads
+        if (jobs === 0 && processes === 0) {
+            vscode.window.setStatusBarMessage('WWSync: Nothing to cancel.', 3000);
+        } else if (jobs === 0) {
+            vscode.window.setStatusBarMessage(`WWSync: Stopped ${processes} process(es).`, 3000);
+        } else {
+            const stopped = processes > 0 ? ` and stopped ${processes} process(es)` : '';
+            vscode.window.setStatusBarMessage(`WWSync: Cancelled ${jobs} job(s)${stopped}.`, 3000);
+        }
+    }
+
+    private remove(entry: QueueEntry) {
+        const index = this.entries.indexOf(entry);
+        if (index !== -1) {
+            this.entries.splice(index, 1);
+            this._onDidChange.fire();
+        }
+    }
+}
@@ -0,0 +1,101 @@
+import * as cp from 'child_process';
+import * as crypto from 'crypto';
+
+/**
+ * Starts and stops child processes. Everything WWSync runs (rsync, ssh, hooks) goes through the
+ * active runner, so it can be replaced, e.g. by a fake that records commands instead of running them.
+ */
+export interface ProcessRunner {
+    spawn(command: string, args: string[], options: cp.SpawnOptions): cp.ChildProcess;
+    /** Stops the process and everything it started */
+    kill(proc: cp.ChildProcess): void;
+}
+
+/**
+ * Runs real processes. On Unix each one leads its own process group, so killing it also stops
+ * the shell, rsync and the ssh it runs; `proc.kill()` alone only stops the shell and leaves rsync running.
+ */
+export const systemProcessRunner: ProcessRunner = {
+    spawn(command, args, options) {
+        return cp.spawn(command, args, { ...options, detached: process.platform !== 'win32' });
+    },
+    kill(proc) {
+        if (proc.pid === undefined) {
+            return;
+        }
+        try {
+            if (process.platform === 'win32') {
+                cp.spawn('taskkill', ['/pid', String(proc.pid), '/T', '/F'], { stdio: 'ignore' });
+            } else {
+                process.kill(-proc.pid, 'SIGTERM');
+            }
+        } catch {
+            proc.kill();
+        }
+    }
+};
+
+let runner: ProcessRunner = systemProcessRunner;
+
+/**
+ * Replaces the process runner; without an argument the system runner is restored.
+ */
+export function setProcessRunner(newRunner?: ProcessRunner) {
+    runner = newRunner ?? systemProcessRunner;
+}
+
+/**
+ * Quotes an argument for a POSIX shell. Arguments made of safe characters only are left as they are.
+ */
+export function quoteShellArg(arg: string): string {
+    return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * A command line that can be copied into a shell, for logs.
+ */
+export function formatCommandLine(command: string, args: string[]): string {
+    return [command, ...args].map(quoteShellArg).join(' ');
+}
+
+/**
+ * Set by the AskPass manager in the environment of its helper. Every spawned process gets its own
+ * value, so the helper tells which process asks and a prompt repeated by the same ssh is recognized.
+ */
+export const ASKPASS_TOKEN_VAR = 'WWSYNC_ASKPASS_TOKEN';
+
+// Child processes (rsync, ssh, hooks) that have not closed yet
+const running = new Set<cp.ChildProcess>();
+
+/**
+ * Spawns a child process through the active runner and keeps track of it until it closes.
+ */
+export function spawnProcess(command: string, args: string[], options: cp.SpawnOptions): cp.ChildProcess {
+    if (options.env?.[ASKPASS_TOKEN_VAR] !== undefined) {
+        options = { ...options, env: { ...options.env, [ASKPASS_TOKEN_VAR]: crypto.randomBytes(8).toString('hex') } };
+    }
+    const proc = runner.spawn(command, args, options);
+    running.add(proc);
+    proc.on('close', () => running.delete(proc));
+    proc.on('error', () => running.delete(proc));
+    return proc;
+}
+
+/**
+ * Kills a process started with `spawnProcess` and all of its descendants.
+ */
+export function killProcess(proc: cp.ChildProcess) {
+    if (!running.has(proc)) {
+        return;
+    }
+    runner.kill(proc);
+}
+
+/**
+ * Kills every running child process. Returns how many there were.
+ */
+export function killAllProcesses(): number {
+    const count = running.size;
+    running.forEach(killProcess);
+    return count;
+}
@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+
+export interface SyncSummary {
+    filesTransferred: number;
+    filesDeleted: number;
+    totalFiles: number;
+    bytesSent: number;
+    bytesReceived: number;
+    totalSize: number;
+    speedup: number;
+    durationMs: number;
+    /** rsync command line that produced this summary */
+    commandLine?: string;
+}
+
+export type ProgressReporter = vscode.Progress<{ message?: string; increment?: number }>;
+
+// e.g. "      1,234,567  45%   12.34MB/s    0:00:10 (xfr#3, to-chk=10/20)"
+const PROGRESS_LINE = /^\s*([\d,.]+[KMGT]?)\s+(\d+)%\s+(\S+\/s)\s+(\d+:\d{2}:\d{2})/;
+
+function parseNumber(value: string): number {
+    return Number(value.replace(/,/g, '')) || 0;
+}
+
+export function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+export function formatSummary(summary: SyncSummary): string {
+    return `${summary.filesTransferred} file(s) transferred, ` +
+        `${summary.filesDeleted} deleted, ` +
+        `${formatBytes(summary.bytesSent)} sent, ` +
+        `${formatBytes(summary.bytesReceived)} received, ` +
+        `speedup ${summary.speedup.toFixed(2)}, ` +
+        `${(summary.durationMs / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Parses the `--stats` block printed at the end of an rsync run.
+ */
+export function parseStats(output: string, durationMs: number): SyncSummary {
+    const read = (pattern: RegExp): number => {
+        const match = pattern.exec(output);
+        return match ? parseNumber(match[1]) : 0;
+    };
+
+    return {
+        // "Number of regular files transferred" (3.1+) or "Number of files transferred" (older)
+        filesTransferred: read(/^Number of (?:regular )?files transferred:\s*([\d,]+)/m),
+        filesDeleted: read(/^Number of deleted files:\s*([\d,]+)/m),
+        totalFiles: read(/^Number of files:\s*([\d,]+)/m),
+        bytesSent: read(/^Total bytes sent:\s*([\d,]+)/m),
+        bytesReceived: read(/^Total bytes received:\s*([\d,]+)/m),
+        totalSize: read(/^Total file size:\s*([\d,]+)/m),
+        speedup: read(/speedup is ([\d,.]+)/),
+        durationMs
+    };
+}
+
+/**
+ * Consumes rsync stdout (`-v --info=progress2 --stats`) chunk by chunk.
+ * Progress lines update the notification, everything else is passed on as log lines.
+ */
+export class RsyncOutputParser {
+    private buffer = '';
+    private output = '';
+    private currentFile = '';
+    private reportedPercent = 0;
+    private inStats = false;
+
+    constructor(
+        private onLine: (line: string) => void,
+        private progress?: ProgressReporter
+    ) { }
+
+    public push(chunk: string) {
+        this.buffer += chunk;
+        // progress2 rewrites the same line with \r
+        const parts = this.buffer.split(/\r\n|\r|\n/);
+        this.buffer = parts.pop() ?? '';
+        parts.forEach(line => this.handleLine(line));
+    }
+
+    public end() {
+        if (this.buffer) {
+            this.handleLine(this.buffer);
+            this.buffer = '';
+        }
+    }
+
+    public summarize(durationMs: number): SyncSummary {
+        return parseStats(this.output, durationMs);
+    }
+
+    private handleLine(line: string) {
+        const progressMatch = PROGRESS_LINE.exec(line);
+        if (progressMatch) {
+            this.reportProgress(Number(progressMatch[2]), progressMatch[3], progressMatch[4]);
+            return;
+        }
+
+        this.output += line + '\n';
+
+        if (line.startsWith('Number of files:')) {
+            this.inStats = true;
+        }
+        const trimmed = line.trim();
+        if (!this.inStats && trimmed && !trimmed.endsWith('/') && !/^(sending|receiving) incremental file list$/.test(trimmed)) {
+            this.currentFile = trimmed;
+        }
+
+        this.onLine(line);
+    }
+
+    private reportProgress(percent: number, speed: string, eta: string) {
+        if (!this.progress) {
+            return;
+        }
+        const increment = Math.max(0, percent - this.reportedPercent);
+        this.reportedPercent = Math.max(this.reportedPercent, percent);
+
+        const parts = [`${percent}%`];
+        if (this.currentFile) {
+            parts.push(this.currentFile);
+        }
+        parts.push(speed, `ETA ${eta}`);
+
+        this.progress.report({ message: parts.join(' · '), increment });
+    }
+}
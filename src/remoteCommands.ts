@@ -0,0 +1,235 @@
+import * as vscode from 'vscode';
+import { loadConfig, resolveMapping, Mapping, RemoteCommand, WWConfig } from './config';
+import { findServersForPath, findMappings } from './serverSelector';
+import { SessionState } from './sessionState';
+import { CredentialStore } from './credentials';
+import { withAskPass } from './askPass';
+import { SyncJob } from './syncJob';
+import { SyncSummary } from './progress';
+import { runCommand } from './hooks';
+import { SshTarget, buildRemoteCommand, getRemoteLocation, isLocalTarget, quoteRemotePath } from './ssh';
+import { getActiveWorkspaceFolder } from './drift';
+
+/**
+ * A named command together with the server and mapping it is defined on.
+ */
+export interface RemoteCommandEntry {
+    serverAlias: string;
+    mapping: Mapping;
+    command: RemoteCommand;
+}
+
+/**
+ * Runs a sync job (through the job queue, with progress and history).
+ * Output goes to the WWSync output channel unless another channel is given.
+ */
+export type SyncRunner = (job: SyncJob, outputChannel?: vscode.OutputChannel, token?: vscode.CancellationToken) => Promise<SyncSummary | undefined>;
+
+type SyncMode = 'safe' | 'full';
+
+/**
+ * Commands of every mapping that encloses the folder; the session's server comes first.
+ */
+export function getRemoteCommands(config: WWConfig, currentPath: string, sessionState: SessionState): RemoteCommandEntry[] {
+    const preferred = sessionState.get(currentPath);
+    const servers = findServersForPath(config, currentPath)
+        .sort((a, b) => Number(b === preferred) - Number(a === preferred));
+
+    return servers.flatMap(serverAlias =>
+        findMappings(config.servers[serverAlias], currentPath).flatMap(mapping =>
+            (mapping.commands ?? []).map(command => ({ serverAlias, mapping, command }))));
+}
+
+export const SYNC_FIRST_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('cloud-upload'),
+    tooltip: 'Safe Sync first, then run'
+};
+
+/**
+ * Named commands of a mapping ("commands" in the config), run in its remote folder
+ * in a dedicated terminal or in the output channel, optionally after a sync.
+ */
+export class RemoteCommands {
+    constructor(
+        context: vscode.ExtensionContext,
+        private outputChannel: vscode.OutputChannel,
+        private sessionState: SessionState,
+        private credentials: CredentialStore,
+        private runSync: SyncRunner
+    ) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('wwsync.runCommand', async (serverAlias?: string, local?: string, name?: string, sync?: SyncMode) => {
+                try {
+                    if (serverAlias && local && name) {
+                        await this.runNamed(serverAlias, local, name, sync);
+                    } else {
+                        await this.pickAndRun();
+                    }
+                } catch (error: any) {
+                    vscode.window.showErrorMessage(`WWSync Error: ${error.message}`);
+                }
+            })
+        );
+    }
+
+    /**
+     * 'WWSync: Run Command': picks one of the commands defined for the current folder.
+     */
+    private async pickAndRun() {
+        const currentPath = getActiveWorkspaceFolder();
+        if (!currentPath) {
+            vscode.window.showErrorMessage('No workspace folder found. Please open a folder first.');
+            return;
+        }
+
+        const entries = getRemoteCommands(loadConfig(), currentPath, this.sessionState);
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('No remote commands are defined for this folder. Add "commands" to its mapping in the config.');
+            return;
+        }
+
+        const multipleServers = new Set(entries.map(e => e.serverAlias)).size > 1;
+        const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { entry: RemoteCommandEntry }>();
+        quickPick.placeholder = 'Select a command to run in the remote folder';
+        quickPick.matchOnDetail = true;
+        quickPick.items = entries.map(entry => ({
+            label: `$(play) ${entry.command.name}`,
+            description: describeCommand(entry, multipleServers),
+            detail: entry.command.command,
+            buttons: [SYNC_FIRST_BUTTON],
+            entry
+        }));
+
+        const picked = await new Promise<{ entry: RemoteCommandEntry; sync?: SyncMode } | undefined>(resolve => {
+            quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0] && { entry: quickPick.selectedItems[0].entry }));
+            quickPick.onDidTriggerItemButton(e => resolve({ entry: e.item.entry, sync: 'safe' }));
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
+
+        if (picked) {
+            await this.run(picked.entry, picked.sync);
+        }
+    }
+
+    private async runNamed(serverAlias: string, local: string, name: string, sync?: SyncMode) {
+        const server = loadConfig().servers[serverAlias];
+        const mapping = server?.mappings.find(m => m.local === local);
+        const command = mapping?.commands?.find(c => c.name === name);
+        if (!mapping || !command) {
+            vscode.window.showErrorMessage(`Command '${name}' is no longer defined for ${local} on ${serverAlias}.`);
+            return;
+        }
+        await this.run({ serverAlias, mapping, command }, sync);
+    }
+
+    /**
+     * Syncs first if requested (by the caller or the command's `sync` option), then runs the command.
+     * A failed or cancelled sync skips the command.
+     */
+    public async run(entry: RemoteCommandEntry, sync?: SyncMode) {
+        const server = loadConfig().servers[entry.serverAlias];
+        if (!server) {
+            vscode.window.showErrorMessage(`Server '${entry.serverAlias}' no longer exists.`);
+            return;
+        }
+        const mapping = resolveMapping(server, entry.mapping);
+        const { command } = entry;
+
+        const syncMode = sync ?? command.sync;
+        if (syncMode) {
+            const summary = await this.runSync({
+                command: syncMode === 'full' ? 'fullSync' : 'safeSync',
+                serverAlias: entry.serverAlias,
+                server,
+                mapping
+            });
+            if (!summary) {
+                vscode.window.setStatusBarMessage(`WWSync: '${command.name}' skipped, the sync did not complete.`, 5000);
+                return;
+            }
+        }
+
+        if (command.runIn === 'output') {
+            await this.runInOutput(entry.serverAlias, server, mapping, command);
+        } else {
+            this.runInTerminal(entry.serverAlias, server, mapping, command);
+        }
+    }
+
+    private runInTerminal(serverAlias: string, server: SshTarget, mapping: Mapping, command: RemoteCommand) {
+        const [program, args] = buildRemoteCommand(server, `cd ${quoteRemotePath(mapping.remote)} && ${command.command}`);
+        // A terminal for ssh, so prompts and interactive commands (e.g. tail -f) work
+        const terminal = vscode.window.createTerminal({
+            name: `WWSync: ${command.name} (${serverAlias})`,
+            shellPath: program,
+            shellArgs: isLocalTarget(server) ? args : ['-t', ...args]
+        });
+        terminal.show();
+    }
+
+    private async runInOutput(serverAlias: string, server: SshTarget, mapping: Mapping, command: RemoteCommand) {
+        const outputChannel = this.outputChannel;
+        outputChannel.show(true);
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `WWSync: ${command.name}`,
+            cancellable: true
+        }, async (_progress, token) => {
+            const code = await this.execute(serverAlias, server, mapping, command, outputChannel, token);
+
+            if (token.isCancellationRequested) {
+                outputChannel.appendLine(`✖ '${command.name}' cancelled by user.`);
+            } else if (code === 0) {
+                outputChannel.appendLine(`✔ '${command.name}' completed.`);
+                vscode.window.setStatusBarMessage(`WWSync: '${command.name}' completed.`, 5000);
+            } else {
+                outputChannel.appendLine(`✖ '${command.name}' failed with code ${code}.`);
+                vscode.window.showErrorMessage(`'${command.name}' failed with code ${code}. See the WWSync output for details.`);
+            }
+        });
+    }
+
+    /**
+     * Runs a command in the remote folder with AskPass, streaming its output into `outputChannel`.
+     * Returns its exit code, or null if it could not be started or was killed.
+     */
+    public async execute(
+        serverAlias: string,
+        server: SshTarget,
+        mapping: Mapping,
+        command: RemoteCommand,
+        outputChannel: vscode.OutputChannel,
+        token?: vscode.CancellationToken
+    ): Promise<number | null> {
+        outputChannel.appendLine('');
+        outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+        outputChannel.appendLine(`>>> ${command.name} (${getRemoteLocation(server, mapping.remote)}): ${command.command}`);
+        outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+
+        try {
+            const [program, args] = buildRemoteCommand(server, `cd ${quoteRemotePath(mapping.remote)} && ${command.command}`);
+            return await withAskPass(this.sessionState, this.credentials, serverAlias,
+                env => runCommand(outputChannel, program, args, { env: { ...process.env, ...env } }, token));
+        } catch (error: any) {
+            outputChannel.appendLine(`Error: ${error.message}`);
+            return null;
+        }
+    }
+}
+
+/**
+ * Quick pick description of a command: its server (if there are several) and sync option.
+ */
+export function describeCommand(entry: RemoteCommandEntry, withServer: boolean): string {
+    const parts = withServer ? [entry.serverAlias] : [];
+    if (entry.command.sync) {
+        parts.push(entry.command.sync === 'full' ? 'Full Sync first' : 'Safe Sync first');
+    }
+    if (entry.command.runIn === 'output') {
+        parts.push('output channel');
+    }
+    return parts.join(' · ');
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { loadConfig } from './config';
+import { SessionState } from './sessionState';
+import { CredentialStore } from './credentials';
+import { withAskPass } from './askPass';
+import { SshTarget, execRemote, quoteRemotePath } from './ssh';
+
+export const REMOTE_SCHEME = 'wwsync-remote';
+
+/**
+ * Largest remote file (in bytes) that is opened, from the `wwsync.compareMaxFileSize` setting.
+ */
+export function getMaxFileSize(): number {
+    const megabytes = vscode.workspace.getConfiguration('wwsync').get<number>('compareMaxFileSize', 10);
+    return Math.max(megabytes, 0) * 1024 * 1024;
+}
+
+/**
+ * `wwsync-remote://<server alias>/<remote path>`. Paths relative to the remote home are kept under `/~/`.
+ */
+export function toRemoteUri(serverAlias: string, remotePath: string): vscode.Uri {
+    const uriPath = remotePath.startsWith('/') ? remotePath : `/~/${remotePath.replace(/^~\/?/, '')}`;
+    return vscode.Uri.from({ scheme: REMOTE_SCHEME, authority: serverAlias, path: uriPath });
+}
+
+function getRemotePath(uri: vscode.Uri): string {
+    return uri.path === '/~' || uri.path.startsWith('/~/') ? uri.path.substring(1) : uri.path;
+}
+
+export type RemoteFileStat = { type: 'file'; size: number } | { type: 'directory' } | { type: 'missing' };
+
+/**
+ * Read-only view of files on a configured server, fetched over its SSH connection.
+ * Used as the remote side of 'WWSync: Compare with Remote'.
+ */
+export class RemoteFileSystemProvider implements vscode.FileSystemProvider {
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    public readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private sessionState: SessionState,
+        private credentials: CredentialStore
+    ) {
+        context.subscriptions.push(
+            vscode.workspace.registerFileSystemProvider(REMOTE_SCHEME, this, { isCaseSensitive: true, isReadonly: true })
+        );
+    }
+
+    /**
+     * Size and type of a remote path, without transferring its content.
+     */
+    public async statRemote(uri: vscode.Uri, token?: vscode.CancellationToken): Promise<RemoteFileStat> {
+        const p = quoteRemotePath(getRemotePath(uri));
+        const output = await this.exec(
+            uri,
+            `if [ -d ${p} ]; then echo directory; elif [ -f ${p} ]; then wc -c < ${p}; else echo missing; fi`,
+            token
+        );
+        const result = output.toString().trim();
+        if (result === 'directory' || result === 'missing') {
+            return { type: result };
+        }
+        const size = parseInt(result, 10);
+        if (isNaN(size)) {
+            throw new Error(`Unexpected output while checking ${getRemotePath(uri)}: ${result}`);
+        }
+        return { type: 'file', size };
+    }
+
+    /**
+     * Content of a remote file. Rejects when it is larger than the configured limit.
+     */
+    public async readRemote(uri: vscode.Uri, token?: vscode.CancellationToken): Promise<Uint8Array> {
+        const maxSize = getMaxFileSize();
+        try {
+            return await this.exec(uri, `cat ${quoteRemotePath(getRemotePath(uri))}`, token, maxSize);
+        } catch (error: any) {
+            throw vscode.FileSystemError.Unavailable(`${getRemotePath(uri)}: ${error.message}`);
+        }
+    }
+
+    private async exec(uri: vscode.Uri, command: string, token?: vscode.CancellationToken, maxBytes?: number): Promise<Buffer> {
+        const serverAlias = uri.authority;
+        const server: SshTarget | undefined = loadConfig().servers[serverAlias];
+        if (!server) {
+            throw vscode.FileSystemError.Unavailable(`Server '${serverAlias}' is not configured.`);
+        }
+
+        return withAskPass(this.sessionState, this.credentials, serverAlias,
+            env => execRemote(server, command, env, token, maxBytes));
+    }
+
+    public async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        let remote: RemoteFileStat;
+        try {
+            remote = await this.statRemote(uri);
+        } catch (error: any) {
+            throw error instanceof vscode.FileSystemError ? error : vscode.FileSystemError.Unavailable(error.message);
+        }
+        if (remote.type === 'missing') {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        // The remote modification time is not fetched; every stat counts as a fresh copy
+        const now = Date.now();
+        return {
+            type: remote.type === 'directory' ? vscode.FileType.Directory : vscode.FileType.File,
+            ctime: now,
+            mtime: now,
+            size: remote.type === 'file' ? remote.size : 0,
+            permissions: vscode.FilePermission.Readonly
+        };
+    }
+
+    public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        return this.readRemote(uri);
+    }
+
+    public watch(): vscode.Disposable {
+        // Remote files are not watched; reopen the comparison to refresh
+        return new vscode.Disposable(() => { });
+    }
+
+    public readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    public createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    public writeFile(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    public delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    public rename(oldUri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+}
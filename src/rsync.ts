@@ -1,7 +1,19 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
 import * as path from 'path';
-import { Mapping } from './config';
+import * as fs from 'fs';
+import * as os from 'os';
+import { Mapping, RsyncOptions } from './config';
+import { ProgressReporter, RsyncOutputParser, SyncSummary, formatSummary } from './progress';
+import type { SyncReviewView } from './syncReview';
+import { SshTarget, buildSshCommand, getDestination, getRemoteLocation, isLocalTarget } from './ssh';
+import { spawnProcess, killProcess, formatCommandLine } from './processes';
+import { getSnapshotDir, getSnapshotExclude, createSnapshotName, buildSnapshotArgs, prepareSnapshot } from './snapshots';
+
+export class RsyncError extends Error {
+    constructor(message: string, public exitCode: number | null, public commandLine: string) {
+        super(message);
+    }
+}
 
 function ensureTrailingSlash(p: string): string {
     return p.endsWith(path.sep) || p.endsWith('/') ? p : p + '/';
@@ -9,97 +21,421 @@ function ensureTrailingSlash(p: string): string {
 
 export async function runSafeSync(
     outputChannel: vscode.OutputChannel,
-    host: string,
+    server: SshTarget,
     mapping: Mapping,
     token?: vscode.CancellationToken,
-    env?: NodeJS.ProcessEnv
-): Promise<void> {
+    env?: NodeJS.ProcessEnv,
+    files?: string[],
+    progress?: ProgressReporter
+): Promise<SyncSummary> {
     const src = ensureTrailingSlash(mapping.local);
-    const dest = `${host}:${mapping.remote}`;
+    const dest = getRemoteLocation(server, mapping.remote);
 
     outputChannel.appendLine('');
     outputChannel.appendLine('═══════════════════════════════════════════════════════════');
-    outputChannel.appendLine(`>>> Syncing (Safe Mode): ${mapping.local} -> ${host}:${mapping.remote}`);
+    if (files) {
+        outputChannel.appendLine(`>>> Syncing (Safe Mode, ${files.length} selected path(s)): ${mapping.local} -> ${dest}`);
+    } else {
+        outputChannel.appendLine(`>>> Syncing (Safe Mode): ${mapping.local} -> ${dest}`);
+    }
     outputChannel.appendLine('Files missing locally will NOT be deleted on the server.');
     outputChannel.appendLine('═══════════════════════════════════════════════════════════');
 
-    const args = buildRsyncArgs(mapping.excludes, false);
+    const args = buildRsyncArgs(server, mapping, false);
+
+    // Only transfer the given paths (relative to mapping.local), listed on stdin.
+    // -a does not imply -r with --files-from, so folders need it explicitly.
+    if (files) {
+        args.push('--files-from=-', '--recursive');
+    }
     args.push(src, dest);
 
-    return runRsyncCommand(outputChannel, args, 'Safe sync', token, env);
+    return runRsyncCommand(outputChannel, args, 'Safe sync', token, env, progress, files && buildFilesFrom(files));
 }
 
+/**
+ * Plans a Full Sync with a dry run, asks for confirmation (or a review) before anything is deleted,
+ * then mirrors the local folder. `beforeApply` runs once confirmed, right before the transfer
+ * (e.g. the pre-sync hooks, so a cancelled sync leaves the server untouched).
+ */
 export async function runFullSync(
     outputChannel: vscode.OutputChannel,
-    host: string,
+    server: SshTarget,
+    mapping: Mapping,
+    token?: vscode.CancellationToken,
+    env?: NodeJS.ProcessEnv,
+    reviewView?: SyncReviewView,
+    progress?: ProgressReporter,
+    beforeApply?: () => Promise<void>
+): Promise<SyncSummary | undefined> {
+    try {
+        if (token?.isCancellationRequested) {
+            return;
+        }
+        const changes = await planFullSync(outputChannel, server, mapping, token, env);
+        const filesToDelete = changes.filter(c => c.kind === 'deleted');
+
+        let skipped: ItemizedChange[] = [];
+        if (needsFullSyncReview(changes) && reviewView) {
+            const host = getDestination(server);
+            const result = await reviewView.review({ targets: [{ label: host, server, mapping, changes, env }], token });
+
+            if (!result) {
+                outputChannel.appendLine('Operation cancelled.');
+                vscode.window.showInformationMessage('Full sync cancelled.');
+                return;
+            }
+            skipped = result[0];
+        } else if (filesToDelete.length > 0) {
+            const confirm = await vscode.window.showWarningMessage(
+                `${filesToDelete.length} file(s) will be DELETED on the server. (See WWSync output for details)\nContinue?`,
+                { modal: true },
+                'Yes, delete'
+            );
+
+            if (confirm !== 'Yes, delete') {
+                outputChannel.appendLine('Operation cancelled.');
+                vscode.window.showInformationMessage('Full sync cancelled.');
+                return;
+            }
+        }
+
+        if (token?.isCancellationRequested) {
+            return;
+        }
+
+        await beforeApply?.();
+        return await applyFullSync(outputChannel, server, mapping, changes, skipped, token, env, progress);
+    } catch (error: any) {
+        outputChannel.appendLine(`Error: ${error.message}`);
+        throw error;
+    }
+}
+
+/**
+ * Dry run of a Full Sync: logs the files that would be deleted and returns all itemized changes.
+ */
+export async function planFullSync(
+    outputChannel: vscode.OutputChannel,
+    server: SshTarget,
     mapping: Mapping,
     token?: vscode.CancellationToken,
     env?: NodeJS.ProcessEnv
-): Promise<void> {
+): Promise<ItemizedChange[]> {
     const src = ensureTrailingSlash(mapping.local);
-    const dest = `${host}:${mapping.remote}`;
+    const dest = getRemoteLocation(server, mapping.remote);
 
     outputChannel.appendLine('');
     outputChannel.appendLine('═══════════════════════════════════════════════════════════');
-    outputChannel.appendLine(`>>> Full Sync (Full Mode): ${mapping.local} -> ${host}:${mapping.remote}`);
+    outputChannel.appendLine(`>>> Full Sync (Full Mode): ${mapping.local} -> ${dest}`);
     outputChannel.appendLine('Checking for files to delete on remote...');
     outputChannel.appendLine('═══════════════════════════════════════════════════════════');
 
     // First, dry run to check for deletions
-    const dryRunArgs = buildRsyncArgs(mapping.excludes, true);
-    dryRunArgs.push('--dry-run', src, dest);
+    const dryRunArgs = buildRsyncArgs(server, mapping, true);
+    dryRunArgs.push('--dry-run', '--itemize-changes', src, dest);
+    outputChannel.appendLine(`Dry run: ${formatCommandLine('rsync', dryRunArgs)}`);
+
+    const dryRunOutput = await runRsyncCommandWithOutput(dryRunArgs, token, env);
+    const changes = parseItemizedChanges(dryRunOutput);
+    const filesToDelete = changes.filter(c => c.kind === 'deleted').map(c => c.path);
+
+    if (filesToDelete.length > 0) {
+        outputChannel.appendLine('');
+        outputChannel.appendLine('⚠️  WARNING! The following files will be DELETED on the server:');
+        filesToDelete.forEach(f => outputChannel.appendLine(`  - ${f}`));
+        outputChannel.appendLine('');
+        outputChannel.appendLine(`Total files to delete: ${filesToDelete.length}`);
+    } else {
+        outputChannel.appendLine('✔ No files need to be deleted.');
+    }
+
+    return changes;
+}
+
+/**
+ * Whether a Full Sync with these changes goes through the review panel (see `wwsync.fullSyncReview`).
+ */
+export function needsFullSyncReview(changes: ItemizedChange[]): boolean {
+    const reviewMode = vscode.workspace.getConfiguration('wwsync').get<string>('fullSyncReview', 'onDelete');
+    return changes.some(c => c.kind === 'deleted') || (reviewMode === 'always' && changes.length > 0);
+}
+
+/**
+ * The real Full Sync after planning, leaving out the changes deselected in a review.
+ * With snapshots enabled, the files it replaces or deletes are moved into a new snapshot.
+ */
+export async function applyFullSync(
+    outputChannel: vscode.OutputChannel,
+    server: SshTarget,
+    mapping: Mapping,
+    changes: ItemizedChange[],
+    skipped: ItemizedChange[],
+    token?: vscode.CancellationToken,
+    env?: NodeJS.ProcessEnv,
+    progress?: ProgressReporter
+): Promise<SyncSummary> {
+    const src = ensureTrailingSlash(mapping.local);
+    const dest = getRemoteLocation(server, mapping.remote);
+
+    if (skipped.length > 0) {
+        outputChannel.appendLine(`Skipping ${skipped.length} change(s) deselected in review:`);
+        skipped.forEach(c => outputChannel.appendLine(`  - ${c.path}`));
+    }
+
+    // Deselected entries must match before the mapping excludes
+    const syncArgs = buildSkipFilterArgs(skipped);
+    syncArgs.push(...buildRsyncArgs(server, mapping, true));
+
+    const applied = changes.filter(c => !skipped.includes(c));
+    if (getSnapshotDir(mapping) && applied.length > 0) {
+        const snapshot = createSnapshotName();
+        await prepareSnapshot(outputChannel, server, mapping, snapshot, applied, token, env);
+        syncArgs.push(...buildSnapshotArgs(mapping, snapshot));
+    }
+    syncArgs.push(src, dest);
+
+    return runRsyncCommand(outputChannel, syncArgs, 'Full sync', token, env, progress);
+}
+
+export async function runSafePull(
+    outputChannel: vscode.OutputChannel,
+    server: SshTarget,
+    mapping: Mapping,
+    token?: vscode.CancellationToken,
+    env?: NodeJS.ProcessEnv,
+    files?: string[],
+    progress?: ProgressReporter
+): Promise<SyncSummary | undefined> {
+    return runPull(outputChannel, server, mapping, false, token, env, progress, files);
+}
+
+export async function runFullPull(
+    outputChannel: vscode.OutputChannel,
+    server: SshTarget,
+    mapping: Mapping,
+    token?: vscode.CancellationToken,
+    env?: NodeJS.ProcessEnv,
+    progress?: ProgressReporter
+): Promise<SyncSummary | undefined> {
+    return runPull(outputChannel, server, mapping, true, token, env, progress);
+}
+
+async function runPull(
+    outputChannel: vscode.OutputChannel,
+    server: SshTarget,
+    mapping: Mapping,
+    withDelete: boolean,
+    token?: vscode.CancellationToken,
+    env?: NodeJS.ProcessEnv,
+    progress?: ProgressReporter,
+    files?: string[]
+): Promise<SyncSummary | undefined> {
+    const src = getRemoteLocation(server, ensureTrailingSlash(mapping.remote));
+    const dest = ensureTrailingSlash(mapping.local);
+    const operationName = withDelete ? 'Full pull' : 'Safe pull';
+    const mode = withDelete ? 'Full Pull (Full Mode)' : files ? `Pulling (Safe Mode, ${files.length} selected path(s))` : 'Pulling (Safe Mode)';
+
+    outputChannel.appendLine('');
+    outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+    outputChannel.appendLine(`>>> ${mode}: ${getRemoteLocation(server, mapping.remote)} -> ${mapping.local}`);
+    if (withDelete) {
+        outputChannel.appendLine('Files missing on the server WILL be deleted locally.');
+    } else {
+        outputChannel.appendLine('Files missing on the server will NOT be deleted locally.');
+    }
+    outputChannel.appendLine('Checking for local files to overwrite...');
+    outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+
+    // Only transfer the given paths (relative to mapping.remote), listed on stdin
+    const filesArgs = files ? ['--files-from=-', '--recursive'] : [];
+    const filesFrom = files && buildFilesFrom(files);
+
+    // First, dry run to find local files that would be overwritten or deleted
+    const dryRunArgs = buildRsyncArgs(server, mapping, withDelete, true);
+    dryRunArgs.push(...filesArgs, '--dry-run', '--itemize-changes', src, dest);
+    outputChannel.appendLine(`Dry run: ${formatRsyncCommandLine(dryRunArgs, filesFrom)}`);
 
     try {
         if (token?.isCancellationRequested) {
             return;
         }
-        const dryRunOutput = await runRsyncCommandWithOutput(dryRunArgs, token, env);
-        const filesToDelete = parseDeletedFiles(dryRunOutput);
+        const dryRunOutput = await runRsyncCommandWithOutput(dryRunArgs, token, env, filesFrom);
+        const changes = parseItemizedChanges(dryRunOutput);
+        const overwritten = changes.filter(c => c.kind === 'modified' && !c.isDirectory).map(c => c.path);
+        const deleted = changes.filter(c => c.kind === 'deleted').map(c => c.path);
 
-        if (filesToDelete.length > 0) {
-            outputChannel.appendLine('');
-            outputChannel.appendLine('⚠️  WARNING! The following files will be DELETED on the server:');
-            filesToDelete.forEach(f => outputChannel.appendLine(`  - ${f}`));
+        if (overwritten.length > 0 || deleted.length > 0) {
             outputChannel.appendLine('');
-            outputChannel.appendLine(`Total files to delete: ${filesToDelete.length}`);
+            if (overwritten.length > 0) {
+                outputChannel.appendLine('⚠️  WARNING! The following local files will be OVERWRITTEN:');
+                overwritten.forEach(f => outputChannel.appendLine(`  - ${f}`));
+                outputChannel.appendLine('');
+            }
+            if (deleted.length > 0) {
+                outputChannel.appendLine('⚠️  WARNING! The following local files will be DELETED:');
+                deleted.forEach(f => outputChannel.appendLine(`  - ${f}`));
+                outputChannel.appendLine('');
+            }
+            outputChannel.appendLine(`Total files to overwrite: ${overwritten.length}, to delete: ${deleted.length}`);
+
+            const parts: string[] = [];
+            if (overwritten.length > 0) {
+                parts.push(`${overwritten.length} local file(s) will be OVERWRITTEN`);
+            }
+            if (deleted.length > 0) {
+                parts.push(`${deleted.length} local file(s) will be DELETED`);
+            }
 
             const confirm = await vscode.window.showWarningMessage(
-                `${filesToDelete.length} file(s) will be DELETED on the server. (See WWSync output for details)\nContinue?`,
+                `${parts.join(' and ')}. (See WWSync output for details)\nContinue?`,
                 { modal: true },
-                'Yes, delete'
+                'Yes, continue'
             );
 
-            if (confirm !== 'Yes, delete') {
+            if (confirm !== 'Yes, continue') {
                 outputChannel.appendLine('Operation cancelled.');
-                vscode.window.showInformationMessage('Full sync cancelled.');
+                vscode.window.showInformationMessage(`${operationName} cancelled.`);
                 return;
             }
         } else {
-            outputChannel.appendLine('✔ No files need to be deleted.');
+            outputChannel.appendLine('✔ No local files will be overwritten or deleted.');
         }
 
         if (token?.isCancellationRequested) {
             return;
         }
 
-        // Execute real sync
-        const syncArgs = buildRsyncArgs(mapping.excludes, true);
-        syncArgs.push(src, dest);
+        // Execute real pull
+        const pullArgs = buildRsyncArgs(server, mapping, withDelete, true);
+        pullArgs.push(...filesArgs, src, dest);
 
-        await runRsyncCommand(outputChannel, syncArgs, 'Full sync', token, env);
+        return await runRsyncCommand(outputChannel, pullArgs, operationName, token, env, progress, filesFrom);
     } catch (error: any) {
         outputChannel.appendLine(`Error: ${error.message}`);
         throw error;
     }
 }
 
-function buildRsyncArgs(excludes: string[], withDelete: boolean): string[] {
-    const args = ['-avzP'];
+export interface DriftResult {
+    /** Files that are only local or newer locally */
+    localChanges: ItemizedChange[];
+    /** Files that are only on the server or newer there */
+    remoteDrift: ItemizedChange[];
+}
 
-    for (const exc of excludes) {
+/**
+ * Compares local and remote files without transferring anything, using two itemized dry runs
+ * of a Full Sync: files still sent with `--update` are newer locally, the others are newer on the server.
+ */
+export async function checkDrift(
+    server: SshTarget,
+    mapping: Mapping,
+    token?: vscode.CancellationToken,
+    env?: NodeJS.ProcessEnv
+): Promise<DriftResult> {
+    const src = ensureTrailingSlash(mapping.local);
+    const dest = getRemoteLocation(server, mapping.remote);
+
+    const dryRun = async (update: boolean) => {
+        const args = buildRsyncArgs(server, mapping, true);
+        args.push('--dry-run', '--itemize-changes', ...(update ? ['--update'] : []), src, dest);
+        const output = await runRsyncCommandWithOutput(args, token, env);
+        // Only file content counts as drift, not directories or permissions
+        return parseItemizedChanges(output).filter(c => !c.isDirectory && c.kind !== 'permissions');
+    };
+
+    const changes = await dryRun(false);
+    const newerLocally = new Set((await dryRun(true)).map(c => c.path));
+
+    return {
+        localChanges: changes.filter(c => c.kind === 'new' || (c.kind === 'modified' && newerLocally.has(c.path))),
+        remoteDrift: changes.filter(c => c.kind === 'deleted' || (c.kind === 'modified' && !newerLocally.has(c.path)))
+    };
+}
+
+export const IGNORE_FILE = '.wwsyncignore';
+
+/**
+ * Filter rules for a mapping, in rsync's first-match-wins order: the snapshot folder,
+ * .wwsyncignore (so "+" rules can re-include anything below), excludes, then .gitignore.
+ */
+function buildFilterArgs(mapping: Mapping): string[] {
+    const args: string[] = [];
+
+    // A snapshot folder inside the remote folder is never transferred or deleted, whatever the rules below say
+    const snapshotExclude = getSnapshotExclude(mapping);
+    if (snapshotExclude) {
+        args.push('--exclude', snapshotExclude);
+    }
+
+    // Per-directory files in rsync filter syntax; "e" keeps the files themselves from being transferred
+    args.push(`--filter=dir-merge,e ${IGNORE_FILE}`);
+
+    for (const exc of mapping.excludes) {
         args.push('--exclude', exc);
     }
 
+    // Every .gitignore in the tree, each line read as an exclude pattern
+    if (mapping.useGitignore) {
+        args.push('--filter=dir-merge,- .gitignore');
+    }
+
+    return args;
+}
+
+/**
+ * Arguments for the mapping's rsync options.
+ * chmod/chown only apply to uploads - on a pull they would change local files.
+ */
+function buildOptionArgs(options: RsyncOptions, pull: boolean): string[] {
+    const args: string[] = [];
+
+    if (options.checksum) {
+        args.push('--checksum');
+    }
+    if (options.bwlimit !== undefined) {
+        args.push(`--bwlimit=${options.bwlimit}`);
+    }
+    if (options.chmod && !pull) {
+        args.push(`--chmod=${options.chmod}`);
+    }
+    if (options.chown && !pull) {
+        args.push(`--chown=${options.chown}`);
+    }
+    if (options.backup) {
+        args.push('--backup');
+        if (options.backupSuffix) {
+            args.push(`--suffix=${options.backupSuffix}`);
+        }
+    }
+    args.push(...options.extraArgs ?? []);
+
+    return args;
+}
+
+/**
+ * Arguments for reaching the server: `-e` with its SSH options, if it has any, and `--protect-args`
+ * so the remote shell doesn't split or expand paths and patterns (spaces, quotes, `$`, `*`).
+ * Local targets are reached without a remote shell.
+ */
+function buildRshArgs(server: SshTarget): string[] {
+    if (isLocalTarget(server)) {
+        return [];
+    }
+    const sshCommand = buildSshCommand(server);
+    return sshCommand ? ['--protect-args', '-e', sshCommand] : ['--protect-args'];
+}
+
+function buildRsyncArgs(server: SshTarget, mapping: Mapping, withDelete: boolean, pull = false): string[] {
+    const options = mapping.rsyncOptions ?? {};
+    const args = [
+        options.compress === false ? '-avP' : '-avzP',
+        ...buildRshArgs(server),
+        ...buildOptionArgs(options, pull),
+        ...buildFilterArgs(mapping)
+    ];
+
     if (withDelete) {
         args.push('--delete');
     }
@@ -107,42 +443,167 @@ function buildRsyncArgs(excludes: string[], withDelete: boolean): string[] {
     return args;
 }
 
-export function parseDeletedFiles(output: string): string[] {
-    const lines = output.split('\n');
-    const files: string[] = [];
+/**
+ * The list read by `--files-from=-`, one path per line.
+ */
+function buildFilesFrom(files: string[]): string {
+    // rsync expects forward slashes in --files-from entries
+    return files.map(f => f.split(path.sep).join('/')).join('\n') + '\n';
+}
+
+/**
+ * The rsync command line for the output channel and the sync history. A file list read from stdin
+ * is piped in with printf, so the command still works when copied into a terminal.
+ */
+function formatRsyncCommandLine(args: string[], input?: string): string {
+    const commandLine = formatCommandLine('rsync', args);
+    if (input === undefined) {
+        return commandLine;
+    }
+    const lines = input.split('\n').filter(line => line);
+    return `${formatCommandLine('printf', ['%s\\n', ...lines])} | ${commandLine}`;
+}
+
+export type ItemizedChangeKind = 'new' | 'modified' | 'deleted' | 'permissions';
 
-    for (const line of lines) {
+export interface ItemizedChange {
+    /** Path relative to the transfer root, as printed by rsync */
+    path: string;
+    kind: ItemizedChangeKind;
+    isDirectory: boolean;
+    /** Raw itemize string, e.g. ">f.st......" */
+    flags: string;
+}
+
+/**
+ * Parses rsync `--itemize-changes` output (also accepts plain `-v` "deleting" lines).
+ * Entries without any content or permission change (e.g. directory timestamps) are skipped.
+ */
+export function parseItemizedChanges(output: string): ItemizedChange[] {
+    const changes: ItemizedChange[] = [];
+
+    for (const line of output.split('\n')) {
         const trimmed = line.trim();
-        if (trimmed.startsWith('deleting ')) {
-            files.push(trimmed.replace('deleting ', ''));
+
+        const deleted = /^\*?deleting\s+(.+)$/.exec(trimmed);
+        if (deleted) {
+            const file = deleted[1];
+            changes.push({ path: file, kind: 'deleted', isDirectory: file.endsWith('/'), flags: '*deleting' });
+            continue;
+        }
+
+        // YXcstpoguax (rsync 3.x) or YXcstpog (older versions), followed by the path
+        const match = /^([<>ch.])([fdLDS])([^ ]{9}|[^ ]{7}) (.+)$/.exec(trimmed);
+        if (!match) {
+            continue;
+        }
+
+        const [, updateType, fileType, attributes, file] = match;
+        const flags = updateType + fileType + attributes;
+        const isDirectory = fileType === 'd';
+
+        let kind: ItemizedChangeKind | undefined;
+        if (/^\++$/.test(attributes)) {
+            kind = 'new';
+        } else if (updateType !== '.') {
+            kind = 'modified';
+        } else if (/[pogax]/.test(attributes.substring(3))) {
+            kind = 'permissions';
+        }
+
+        if (kind) {
+            changes.push({ path: file, kind, isDirectory, flags });
         }
     }
 
-    return files;
+    return changes;
 }
 
-async function runRsyncCommandWithOutput(args: string[], token?: vscode.CancellationToken, env?: NodeJS.ProcessEnv): Promise<string> {
-    return new Promise((resolve, reject) => {
-        const proc = cp.spawn('rsync', args, { shell: true, env: { ...process.env, ...env } });
+export function parseDeletedFiles(output: string): string[] {
+    return parseItemizedChanges(output)
+        .filter(c => c.kind === 'deleted')
+        .map(c => c.path);
+}
+
+function escapeFilterPath(p: string): string {
+    return p.replace(/[*?[\\]/g, '\\$&');
+}
 
-        if (token) {
-            token.onCancellationRequested(() => {
-                proc.kill();
-                reject(new Error('Operation cancelled'));
-            });
+/**
+ * Filter rules skipping the given changes: deletions are protected, everything else is excluded
+ * from the transfer. Passed as arguments, so the logged command line is complete.
+ */
+function buildSkipFilterArgs(skipped: ItemizedChange[]): string[] {
+    return skipped.map(c => `--filter=${c.kind === 'deleted' ? 'P' : '-'} /${escapeFilterPath(c.path)}`);
+}
+
+export interface ExcludedEntry {
+    path: string;
+    isDirectory: boolean;
+    pattern: string;
+}
+
+/**
+ * Lists local files and folders hidden by the mapping's filter rules.
+ * Runs a local dry run with filter debugging into an empty directory; excluded folders are not descended.
+ */
+export async function listExcludedFiles(mapping: Mapping, token?: vscode.CancellationToken): Promise<ExcludedEntry[]> {
+    const emptyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wwsync-empty-'));
+    try {
+        const args = ['-a', '--dry-run', '--debug=FILTER1', ...buildFilterArgs(mapping)];
+        args.push(ensureTrailingSlash(mapping.local), ensureTrailingSlash(emptyDir));
+        const output = await runRsyncCommandWithOutput(args, token);
+
+        const entries: ExcludedEntry[] = [];
+        for (const line of output.split('\n')) {
+            // e.g. "[sender] hiding directory node_modules because of pattern node_modules"
+            const match = /hiding (file|directory|dir) (.+) because of pattern (.+)$/.exec(line.trim());
+            if (match) {
+                entries.push({ path: match[2], isDirectory: match[1] !== 'file', pattern: match[3] });
+            }
         }
+        return entries;
+    } finally {
+        try { fs.rmSync(emptyDir, { recursive: true, force: true }); } catch {}
+    }
+}
+
+export async function fetchRemoteFile(
+    server: SshTarget,
+    remotePath: string,
+    localPath: string,
+    env?: NodeJS.ProcessEnv
+): Promise<void> {
+    const args = ['-q', ...buildRshArgs(server), getRemoteLocation(server, remotePath), localPath];
+    await runRsyncCommandWithOutput(args, undefined, env);
+}
+
+async function runRsyncCommandWithOutput(
+    args: string[],
+    token?: vscode.CancellationToken,
+    env?: NodeJS.ProcessEnv,
+    input?: string
+): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const proc = spawnRsync(args, env, input);
+
+        const cancellation = token?.onCancellationRequested(() => {
+            killProcess(proc);
+            reject(new Error('Operation cancelled'));
+        });
         let stdout = '';
         let stderr = '';
 
-        proc.stdout.on('data', (data: Buffer) => {
+        proc.stdout!.on('data', (data: Buffer) => {
             stdout += data.toString();
         });
 
-        proc.stderr.on('data', (data: Buffer) => {
+        proc.stderr!.on('data', (data: Buffer) => {
             stderr += data.toString();
         });
 
         proc.on('close', (code: number | null) => {
+            cancellation?.dispose();
             if (code === 0) {
                 resolve(stdout);
             } else {
@@ -151,56 +612,85 @@ async function runRsyncCommandWithOutput(args: string[], token?: vscode.Cancella
         });
 
         proc.on('error', (err: Error) => {
+            cancellation?.dispose();
             reject(err);
         });
     });
 }
 
+/**
+ * Starts rsync; `input` (e.g. a `--files-from=-` list) is written to its stdin.
+ */
+function spawnRsync(args: string[], env?: NodeJS.ProcessEnv, input?: string) {
+    const stdin = input === undefined ? 'ignore' : 'pipe';
+    const proc = spawnProcess('rsync', args, { stdio: [stdin, 'pipe', 'pipe'], env: { ...process.env, ...env } });
+    if (input !== undefined) {
+        // rsync may exit before reading everything; its exit code is reported instead
+        proc.stdin!.on('error', () => { });
+        proc.stdin!.end(input);
+    }
+    return proc;
+}
+
 async function runRsyncCommand(
     outputChannel: vscode.OutputChannel,
     args: string[],
     operationName: string,
     token?: vscode.CancellationToken,
-    env?: NodeJS.ProcessEnv
-): Promise<void> {
+    env?: NodeJS.ProcessEnv,
+    progress?: ProgressReporter,
+    input?: string
+): Promise<SyncSummary> {
     return new Promise((resolve, reject) => {
-        outputChannel.appendLine(`Running: rsync ${args.join(' ')}`);
+        // Overall progress instead of per-file progress bars, plus a summary block at the end
+        args = ['--info=progress2', '--stats', ...args];
+
+        const commandLine = formatRsyncCommandLine(args, input);
+        outputChannel.appendLine(`Running: ${commandLine}`);
         outputChannel.appendLine('');
 
-        const proc = cp.spawn('rsync', args, { shell: true, env: { ...process.env, ...env } });
+        const startTime = Date.now();
+        const parser = new RsyncOutputParser(line => outputChannel.appendLine(line), progress);
+        const proc = spawnRsync(args, env, input);
 
-        if (token) {
-            token.onCancellationRequested(() => {
-                outputChannel.appendLine('');
-                outputChannel.appendLine(`✖ ${operationName} cancelled by user.`);
-                proc.kill();
-            });
-        }
+        const cancellation = token?.onCancellationRequested(() => {
+            outputChannel.appendLine('');
+            outputChannel.appendLine(`✖ ${operationName} cancelled by user.`);
+            killProcess(proc);
+        });
 
-        proc.stdout.on('data', (data: Buffer) => {
-            outputChannel.append(data.toString());
+        proc.stdout!.on('data', (data: Buffer) => {
+            parser.push(data.toString());
         });
 
-        proc.stderr.on('data', (data: Buffer) => {
+        proc.stderr!.on('data', (data: Buffer) => {
             outputChannel.append(data.toString());
         });
 
         proc.on('close', (code: number | null) => {
+            cancellation?.dispose();
+            parser.end();
             outputChannel.appendLine('');
             if (code === 0) {
+                const summary = { ...parser.summarize(Date.now() - startTime), commandLine };
                 outputChannel.appendLine(`✔ ${operationName} completed successfully.`);
-                vscode.window.setStatusBarMessage(`${operationName} completed successfully.`, 5000);
-                resolve();
+                outputChannel.appendLine(`  ${formatSummary(summary)}`);
+                vscode.window.setStatusBarMessage(
+                    `${operationName} completed: ${summary.filesTransferred} file(s) transferred.`,
+                    5000
+                );
+                resolve(summary);
             } else {
                 outputChannel.appendLine(`✖ ${operationName} failed with code ${code}.`);
                 vscode.window.showErrorMessage(`${operationName} failed.`);
-                reject(new Error(`${operationName} failed with code ${code}`));
+                reject(new RsyncError(`${operationName} failed with code ${code}`, code, commandLine));
             }
         });
 
         proc.on('error', (err: Error) => {
+            cancellation?.dispose();
             outputChannel.appendLine(`Error: ${err.message}`);
-            reject(err);
+            reject(new RsyncError(err.message, null, commandLine));
         });
     });
 }
@@ -1,12 +1,25 @@
 import * as vscode from 'vscode';
+import { SshTarget, buildSshArgs, getDestination, getRemoteLocation, isLocalTarget, quoteRemotePath } from './ssh';
 
-export function runRemoteSession(host: string, remotePath: string, shellType: string): void {
-    const remoteCmd = `cd ${remotePath} && exec ${shellType}`;
+export function runRemoteSession(server: SshTarget, remotePath: string, shellType: string): void {
+    if (isLocalTarget(server)) {
+        // A local target only needs a terminal in its folder
+        const terminal = vscode.window.createTerminal({
+            name: `WWSync: ${remotePath}`,
+            cwd: getRemoteLocation(server, remotePath),
+            shellPath: shellType
+        });
+        terminal.show();
+        return;
+    }
+
+    const remoteCmd = `cd ${quoteRemotePath(remotePath)} && exec ${shellType}`;
 
     const terminal = vscode.window.createTerminal({
-        name: `WWSync: ${host}`,
+        name: `WWSync: ${server.host}`,
         shellPath: 'ssh',
-        shellArgs: ['-t', host, remoteCmd]
+        // Same connection options as rsync's -e, so both always reach the server the same way
+        shellArgs: ['-t', ...buildSshArgs(server), '--', getDestination(server), remoteCmd]
     });
 
     terminal.show();
@@ -1,7 +1,9 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
-import { WWConfig, Mapping, saveConfig } from './config';
+import { WWConfig, Mapping, ServerConfig, loadConfig, saveConfig, assignToProject, getProjectConfigPath, PROJECT_CONFIG_FILE } from './config';
 import { SessionState } from './sessionState';
+import { readSshConfigHosts, describeSshHost } from './sshConfig';
 
 interface ServerSelectionResult {
     config: WWConfig;
@@ -13,23 +15,83 @@ interface MappingSelectionResult {
     mapping: Mapping;
 }
 
+export interface SyncTarget {
+    config: WWConfig;
+    serverAlias: string;
+    mapping: Mapping;
+}
+
+/**
+ * Absolute path for comparisons, case-folded only where file systems usually ignore case (Windows, macOS).
+ */
 function normalizePath(p: string): string {
-    return path.normalize(p).toLowerCase();
+    const resolved = path.resolve(p);
+    return process.platform === 'win32' || process.platform === 'darwin' ? resolved.toLowerCase() : resolved;
 }
 
-export function findServersForPath(config: WWConfig, localPath: string): string[] {
+/**
+ * Path of `localPath` inside the folder `root` with forward slashes ('' for the folder itself),
+ * or undefined when it is outside.
+ */
+export function getRelativePath(root: string, localPath: string): string | undefined {
+    const normalizedRoot = normalizePath(root);
     const normalizedPath = normalizePath(localPath);
-    const matches: string[] = [];
-
-    for (const [name, serverConfig] of Object.entries(config.servers)) {
-        for (const mapping of serverConfig.mappings) {
-            if (normalizePath(mapping.local) === normalizedPath) {
-                matches.push(name);
-                break;
-            }
-        }
+    if (normalizedPath !== normalizedRoot && !normalizedPath.startsWith(normalizedRoot.endsWith(path.sep) ? normalizedRoot : normalizedRoot + path.sep)) {
+        return undefined;
     }
-    return matches;
+    // Cut from the original path to keep its case
+    return path.resolve(localPath).substring(normalizedRoot.length).split(path.sep).filter(s => s).join('/');
+}
+
+/**
+ * The innermost folder containing all given files and folders (a folder contains itself),
+ * for resolving the mapping of a selection.
+ */
+export function getCommonFolder(paths: string[]): string {
+    const folders = paths.map(p => {
+        const resolved = path.resolve(p);
+        try {
+            return fs.statSync(resolved).isDirectory() ? resolved : path.dirname(resolved);
+        } catch {
+            return path.dirname(resolved);
+        }
+    });
+    return folders.reduce((common, folder) => {
+        while (getRelativePath(common, folder) === undefined && path.dirname(common) !== common) {
+            common = path.dirname(common);
+        }
+        return common;
+    });
+}
+
+/**
+ * Remote path of a local folder or file inside a mapping.
+ */
+export function getRemotePath(mapping: Mapping, localPath: string): string {
+    const relative = getRelativePath(mapping.local, localPath);
+    return relative ? path.posix.join(mapping.remote, relative) : mapping.remote;
+}
+
+/**
+ * The mappings of a server whose local folder contains a folder or file, innermost first.
+ */
+export function findMappings(serverConfig: ServerConfig, localPath: string): Mapping[] {
+    return serverConfig.mappings
+        .filter(m => getRelativePath(m.local, localPath) !== undefined)
+        .sort((a, b) => normalizePath(b.local).length - normalizePath(a.local).length);
+}
+
+/**
+ * The innermost mapping of a server containing a folder or file, if it has one.
+ */
+export function findMapping(serverConfig: ServerConfig, localPath: string): Mapping | undefined {
+    return findMappings(serverConfig, localPath)[0];
+}
+
+export function findServersForPath(config: WWConfig, localPath: string): string[] {
+    return Object.entries(config.servers)
+        .filter(([, serverConfig]) => findMapping(serverConfig, localPath))
+        .map(([name]) => name);
 }
 
 export async function selectServer(
@@ -49,7 +111,7 @@ export async function selectServer(
         );
 
         if (answer === 'Yes') {
-            return await createNewServer(config);
+            return await createNewServer(config, currentPath);
         }
         return undefined;
     }
@@ -63,7 +125,7 @@ export async function selectServer(
         );
 
         if (answer === 'Yes') {
-            return await createNewServer(config);
+            return await createNewServer(config, currentPath);
         }
     }
 
@@ -86,7 +148,7 @@ export async function selectServer(
         // Multiple matches - let user pick
         const items = matchingServers.map(name => ({
             label: name,
-            description: config.servers[name].host
+            description: config.servers[name].host ?? 'local folder'
         }));
 
         items.push({ label: '$(add) Add new server...', description: '' });
@@ -100,7 +162,7 @@ export async function selectServer(
         }
 
         if (picked.label.includes('Add new server')) {
-            return await createNewServer(config);
+            return await createNewServer(config, currentPath);
         }
 
         // Ask if should remember for session
@@ -129,7 +191,7 @@ export async function selectServer(
         .filter(name => name !== 'example')
         .map(name => ({
             label: name,
-            description: config.servers[name].host
+            description: config.servers[name].host ?? 'local folder'
         }));
 
     items.push({ label: '$(add) Add new server...', description: '' });
@@ -143,26 +205,68 @@ export async function selectServer(
     }
 
     if (picked.label.includes('Add new server')) {
-        return await createNewServer(config);
+        return await createNewServer(config, currentPath);
     }
 
     return { config, serverAlias: picked.label };
 }
 
-async function createNewServer(config: WWConfig): Promise<ServerSelectionResult | undefined> {
-    const serverAlias = await vscode.window.showInputBox({
-        prompt: 'Enter server alias (e.g. production, staging)',
-        placeHolder: 'my-server',
-        validateInput: (value) => {
-            if (!value) return 'Server alias is required';
-            if (config.servers[value]) return 'Server with this name already exists';
-            return undefined;
-        }
-    });
+/**
+ * Asks where a new entry should be stored when the workspace folder has a project config.
+ * Returns the workspace folder for the project config, null for ~/.wwsync, undefined if cancelled.
+ */
+export async function pickConfigLocation(currentPath: string): Promise<string | null | undefined> {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(currentPath));
+    // Project configs are ignored in an untrusted workspace, so nothing is saved there either
+    if (!folder || !vscode.workspace.isTrusted || !fs.existsSync(getProjectConfigPath(folder.uri.fsPath))) {
+        return null;
+    }
 
-    if (!serverAlias) {
+    const picked = await vscode.window.showQuickPick(
+        [
+            { label: `Project (${PROJECT_CONFIG_FILE})`, description: 'Shared with everyone using this repository', project: true },
+            { label: 'Global (~/.wwsync)', description: 'Only for you', project: false }
+        ],
+        { placeHolder: 'Where should this be saved?' }
+    );
+
+    if (!picked) {
         return undefined;
     }
+    return picked.project ? folder.uri.fsPath : null;
+}
+
+/**
+ * Asks for the connection address of a new server, offering the concrete hosts from ~/.ssh/config.
+ * Returns the address and, for an SSH config host, its alias as a name suggestion.
+ */
+export async function pickHost(): Promise<{ host: string; suggestedAlias?: string } | undefined> {
+    const sshHosts = readSshConfigHosts();
+
+    if (sshHosts.length > 0) {
+        const manual = { label: '$(edit) Enter address manually...', description: 'e.g. user@192.168.1.10', host: undefined };
+        const picked = await vscode.window.showQuickPick(
+            [
+                manual,
+                { label: '~/.ssh/config', kind: vscode.QuickPickItemKind.Separator, host: undefined },
+                ...sshHosts.map(h => ({
+                    label: h.alias,
+                    description: describeSshHost(h),
+                    detail: h.proxyJump ? `via ${h.proxyJump}` : undefined,
+                    host: h.alias
+                }))
+            ],
+            { placeHolder: 'Select a host from your SSH config or enter an address', matchOnDescription: true }
+        );
+
+        if (!picked) {
+            return undefined;
+        }
+        // The alias is stored as the host, so ssh keeps resolving it through ~/.ssh/config
+        if (picked.host) {
+            return { host: picked.host, suggestedAlias: picked.host };
+        }
+    }
 
     const host = await vscode.window.showInputBox({
         prompt: 'Enter connection address',
@@ -173,14 +277,51 @@ async function createNewServer(config: WWConfig): Promise<ServerSelectionResult
         }
     });
 
-    if (!host) {
+    return host ? { host } : undefined;
+}
+
+/**
+ * Asks for the alias of a new server.
+ */
+export async function askServerAlias(config: WWConfig, suggestedAlias?: string): Promise<string | undefined> {
+    return vscode.window.showInputBox({
+        prompt: 'Enter server alias (e.g. production, staging)',
+        placeHolder: 'my-server',
+        value: suggestedAlias && !config.servers[suggestedAlias] ? suggestedAlias : undefined,
+        validateInput: (value) => {
+            if (!value) return 'Server alias is required';
+            if (config.servers[value]) return 'Server with this name already exists';
+            return undefined;
+        }
+    });
+}
+
+async function createNewServer(config: WWConfig, currentPath: string): Promise<ServerSelectionResult | undefined> {
+    const hostResult = await pickHost();
+    if (!hostResult) {
+        return undefined;
+    }
+    const host = hostResult.host;
+
+    const serverAlias = await askServerAlias(config, hostResult.suggestedAlias);
+    if (!serverAlias) {
         return undefined;
     }
 
-    config.servers[serverAlias] = {
+    const location = await pickConfigLocation(currentPath);
+    if (location === undefined) {
+        return undefined;
+    }
+
+    const newServer: ServerConfig = {
         host,
         mappings: []
     };
+    if (location) {
+        assignToProject(newServer, location);
+    }
+
+    config.servers[serverAlias] = newServer;
 
     saveConfig(config);
     vscode.window.showInformationMessage(`Server '${serverAlias}' added to configuration.`);
@@ -191,19 +332,22 @@ async function createNewServer(config: WWConfig): Promise<ServerSelectionResult
 export async function selectOrCreateMapping(
     config: WWConfig,
     serverAlias: string,
-    currentPath: string
+    currentPath: string,
+    sessionState: SessionState
 ): Promise<MappingSelectionResult | undefined> {
 
     const serverConfig = config.servers[serverAlias];
-    const normalizedPath = normalizePath(currentPath);
 
-    // Find existing mapping
-    const existingMapping = serverConfig.mappings.find(
-        m => normalizePath(m.local) === normalizedPath
-    );
+    // Find existing mappings containing the folder
+    const existingMappings = findMappings(serverConfig, currentPath);
 
-    if (existingMapping) {
-        return { config, mapping: existingMapping };
+    if (existingMappings.length === 1) {
+        return { config, mapping: existingMappings[0] };
+    }
+
+    if (existingMappings.length > 1) {
+        const mapping = await pickMapping(serverAlias, existingMappings, currentPath, sessionState);
+        return mapping ? { config, mapping } : undefined;
     }
 
     // Create new mapping
@@ -233,11 +377,19 @@ export async function selectOrCreateMapping(
         ? excludesInput.split(',').map(e => e.trim()).filter(e => e)
         : [];
 
+    const location = await pickConfigLocation(currentPath);
+    if (location === undefined) {
+        return undefined;
+    }
+
     const newMapping: Mapping = {
         local: currentPath,
         remote: remotePath,
         excludes
     };
+    if (location) {
+        assignToProject(newMapping, location);
+    }
 
     serverConfig.mappings.push(newMapping);
     saveConfig(config);
@@ -245,3 +397,74 @@ export async function selectOrCreateMapping(
 
     return { config, mapping: newMapping };
 }
+
+/**
+ * Lets the user pick between nested or overlapping mappings containing a folder.
+ */
+async function pickMapping(
+    serverAlias: string,
+    mappings: Mapping[],
+    currentPath: string,
+    sessionState: SessionState
+): Promise<Mapping | undefined> {
+    // Check session cache first
+    const cachedLocal = sessionState.getMapping(serverAlias, currentPath);
+    const cached = mappings.find(m => m.local === cachedLocal);
+    if (cached) {
+        return cached;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        mappings.map((mapping, i) => ({
+            label: mapping.local,
+            description: `→ ${getRemotePath(mapping, currentPath)}`,
+            detail: i === 0 ? 'Innermost mapping' : undefined,
+            mapping
+        })),
+        { placeHolder: `Multiple mappings on '${serverAlias}' contain this folder. Select one:` }
+    );
+
+    if (!picked) {
+        return undefined;
+    }
+
+    // Ask if should remember for session
+    const remember = await vscode.window.showQuickPick(
+        [
+            { label: 'Yes', description: 'Remember for this session' },
+            { label: 'No', description: 'Ask every time' }
+        ],
+        { placeHolder: 'Remember this choice for the session?' }
+    );
+
+    if (remember?.label === 'Yes') {
+        sessionState.setMapping(serverAlias, currentPath, picked.mapping.local);
+    }
+
+    return picked.mapping;
+}
+
+/**
+ * Loads the config and resolves server and mapping for a folder,
+ * asking the user (or creating new entries) where needed.
+ */
+export async function selectTarget(
+    currentPath: string,
+    sessionState: SessionState
+): Promise<SyncTarget | undefined> {
+    const serverResult = await selectServer(loadConfig(), currentPath, sessionState);
+    if (!serverResult) {
+        return undefined;
+    }
+
+    const mappingResult = await selectOrCreateMapping(serverResult.config, serverResult.serverAlias, currentPath, sessionState);
+    if (!mappingResult) {
+        return undefined;
+    }
+
+    return {
+        config: mappingResult.config,
+        serverAlias: serverResult.serverAlias,
+        mapping: mappingResult.mapping
+    };
+}
@@ -0,0 +1,482 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    loadConfig, saveConfig, assignToProject, getConfigSource, getConfigPath,
+    WWConfig, ServerConfig, Mapping
+} from './config';
+import { pickConfigLocation, pickHost, askServerAlias } from './serverSelector';
+import { SessionState } from './sessionState';
+import { CredentialStore } from './credentials';
+import { buildSshArgs, getDestination, isLocalTarget } from './ssh';
+import { WWSyncStatusBar } from './statusBar';
+
+interface ServerNode {
+    type: 'server';
+    alias: string;
+}
+
+interface MappingNode {
+    type: 'mapping';
+    alias: string;
+    local: string;
+    remote: string;
+}
+
+interface ExcludeNode {
+    type: 'exclude';
+    alias: string;
+    local: string;
+    remote: string;
+    pattern: string;
+}
+
+type ServersNode = ServerNode | MappingNode | ExcludeNode;
+
+function parseExcludes(input: string): string[] {
+    return input.split(',').map(e => e.trim()).filter(e => e);
+}
+
+/**
+ * Keeps server groups in line with a renamed or deleted server.
+ * Edits the member lists in place, so they stay in their config file.
+ */
+function renameGroupMember(config: WWConfig, oldAlias: string, newAlias: string | undefined) {
+    for (const members of Object.values(config.groups ?? {})) {
+        const index = members.indexOf(oldAlias);
+        if (index === -1) {
+            continue;
+        }
+        if (newAlias) {
+            members[index] = newAlias;
+        } else {
+            members.splice(index, 1);
+        }
+    }
+}
+
+/**
+ * "Servers" view in the WWSync sidebar: servers → mappings → excludes,
+ * with actions that edit the config through saveConfig.
+ */
+export class ServersView implements vscode.TreeDataProvider<ServersNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<ServersNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private treeView: vscode.TreeView<ServersNode>;
+    private config: WWConfig | undefined;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private sessionState: SessionState,
+        private credentials: CredentialStore,
+        private statusBar: WWSyncStatusBar
+    ) {
+        this.treeView = vscode.window.createTreeView('wwsync.servers', { treeDataProvider: this });
+
+        context.subscriptions.push(
+            this.treeView,
+            vscode.commands.registerCommand('wwsync.servers.refresh', () => this.refresh()),
+            vscode.commands.registerCommand('wwsync.servers.addServer', () => this.addServer()),
+            vscode.commands.registerCommand('wwsync.servers.editServer', (node: ServerNode) => this.editServer(node)),
+            vscode.commands.registerCommand('wwsync.servers.renameServer', (node: ServerNode) => this.renameServer(node)),
+            vscode.commands.registerCommand('wwsync.servers.deleteServer', (node: ServerNode) => this.deleteServer(node)),
+            vscode.commands.registerCommand('wwsync.servers.addMapping', (node: ServerNode) => this.addMapping(node)),
+            vscode.commands.registerCommand('wwsync.servers.editRemote', (node: MappingNode) => this.editRemote(node)),
+            vscode.commands.registerCommand('wwsync.servers.editExcludes', (node: MappingNode) => this.editExcludes(node)),
+            vscode.commands.registerCommand('wwsync.servers.duplicateMapping', (node: MappingNode) => this.duplicateMapping(node)),
+            vscode.commands.registerCommand('wwsync.servers.deleteMapping', (node: MappingNode) => this.deleteMapping(node)),
+            vscode.commands.registerCommand('wwsync.servers.deleteExclude', (node: ExcludeNode) => this.deleteExclude(node))
+        );
+    }
+
+    public refresh() {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private loadConfigSafe(): WWConfig | undefined {
+        try {
+            const config = loadConfig();
+            this.treeView.message = undefined;
+            return config;
+        } catch (error: any) {
+            this.treeView.message = error.message;
+            return undefined;
+        }
+    }
+
+    private findMapping(config: WWConfig, node: MappingNode | ExcludeNode): Mapping | undefined {
+        return config.servers[node.alias]?.mappings.find(m => m.local === node.local && m.remote === node.remote);
+    }
+
+    /**
+     * Loads a fresh config, applies an edit and persists it.
+     */
+    private async edit(apply: (config: WWConfig) => boolean | Promise<boolean>) {
+        try {
+            const config = loadConfig();
+            if (await apply(config)) {
+                saveConfig(config);
+                this.refresh();
+                this.statusBar.update();
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`WWSync Error: ${error.message}`);
+        }
+    }
+
+    public getChildren(element?: ServersNode): ServersNode[] {
+        // Reload on every refresh of the root, children reuse the loaded config
+        const config = element ? this.config : (this.config = this.loadConfigSafe());
+        if (!config) {
+            return [];
+        }
+
+        if (!element) {
+            return Object.keys(config.servers).map(alias => ({ type: 'server', alias }));
+        }
+
+        if (element.type === 'server') {
+            return (config.servers[element.alias]?.mappings ?? []).map(m => ({
+                type: 'mapping',
+                alias: element.alias,
+                local: m.local,
+                remote: m.remote
+            }));
+        }
+
+        if (element.type === 'mapping') {
+            return (this.findMapping(config, element)?.excludes ?? []).map(pattern => ({
+                type: 'exclude',
+                alias: element.alias,
+                local: element.local,
+                remote: element.remote,
+                pattern
+            }));
+        }
+
+        return [];
+    }
+
+    public getTreeItem(element: ServersNode): vscode.TreeItem {
+        const config = this.config;
+
+        if (element.type === 'server') {
+            const server = config?.servers[element.alias];
+            const item = new vscode.TreeItem(element.alias, vscode.TreeItemCollapsibleState.Expanded);
+            const source = server ? getConfigSource(server) : getConfigPath();
+            const local = server ? isLocalTarget(server) : false;
+            item.description = local ? 'local folder' : server?.host;
+            const ssh = local ? 'none (local folder)' : server ? ['ssh', ...buildSshArgs(server), getDestination(server)].join(' ') : '';
+            item.tooltip = `${local ? 'Local target' : server?.host ?? ''}\nConnection: ${ssh}\nShell: ${server?.shell || 'bash'}\nDefined in: ${source}`;
+            item.iconPath = new vscode.ThemeIcon(local ? 'folder' : 'server');
+            item.contextValue = 'server';
+            return item;
+        }
+
+        if (element.type === 'mapping') {
+            const mapping = config && this.findMapping(config, element);
+            const hasExcludes = (mapping?.excludes.length ?? 0) > 0;
+            const item = new vscode.TreeItem(
+                vscode.workspace.asRelativePath(element.local),
+                hasExcludes ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+            );
+            item.description = `→ ${element.remote}${mapping?.autoSync ? ' (auto sync)' : ''}`;
+            item.tooltip = `${element.local} → ${element.alias}:${element.remote}` +
+                (mapping ? `\nDefined in: ${getConfigSource(mapping)}` : '');
+            item.iconPath = new vscode.ThemeIcon('folder');
+            item.contextValue = 'mapping';
+            return item;
+        }
+
+        const item = new vscode.TreeItem(element.pattern, vscode.TreeItemCollapsibleState.None);
+        item.iconPath = new vscode.ThemeIcon('exclude');
+        item.contextValue = 'exclude';
+        return item;
+    }
+
+    private async addServer() {
+        await this.edit(async config => {
+            const hostResult = await pickHost();
+            if (!hostResult) {
+                return false;
+            }
+            const host = hostResult.host;
+
+            const alias = await askServerAlias(config, hostResult.suggestedAlias);
+            if (!alias) {
+                return false;
+            }
+
+            const server: ServerConfig = { host, mappings: [] };
+            const folder = vscode.workspace.workspaceFolders?.[0];
+            const location = folder ? await pickConfigLocation(folder.uri.fsPath) : null;
+            if (location === undefined) {
+                return false;
+            }
+            if (location) {
+                assignToProject(server, location);
+            }
+
+            config.servers[alias] = server;
+            return true;
+        });
+    }
+
+    private async editServer(node: ServerNode) {
+        await this.edit(async config => {
+            const server = config.servers[node.alias];
+            if (!server) {
+                return false;
+            }
+
+            const field = await vscode.window.showQuickPick(
+                [
+                    { label: 'Host', description: server.host, key: 'host' as const, prompt: 'Enter connection address' },
+                    { label: 'Shell', description: server.shell || 'bash', key: 'shell' as const, prompt: 'Enter shell for remote sessions' },
+                    { label: 'User', description: server.user, key: 'user' as const, prompt: 'Enter login user (empty to use the one in the host or ~/.ssh/config)' },
+                    { label: 'Port', description: server.port?.toString(), key: 'port' as const, prompt: 'Enter SSH port (empty for default)' },
+                    { label: 'Identity File', description: server.identityFile, key: 'identityFile' as const, prompt: 'Enter private key path, e.g. ~/.ssh/id_ed25519 (empty for default)' },
+                    { label: 'Proxy Jump', description: server.proxyJump, key: 'proxyJump' as const, prompt: 'Enter jump host, e.g. user@bastion (empty for none)' }
+                ],
+                { placeHolder: `Edit '${node.alias}'` }
+            );
+            if (!field) {
+                return false;
+            }
+
+            const required = field.key === 'host' || field.key === 'shell';
+            const value = await vscode.window.showInputBox({
+                prompt: field.prompt,
+                value: field.key === 'shell' ? (server.shell || 'bash') : (server[field.key]?.toString() ?? ''),
+                validateInput: (v) => {
+                    if (!v && required) return `${field.label} is required`;
+                    if (v && field.key === 'port' && !/^\d+$/.test(v)) return 'Port must be a number';
+                    return undefined;
+                }
+            });
+            if (value === undefined || (!value && required)) {
+                return false;
+            }
+
+            if (field.key === 'port') {
+                server.port = value ? Number(value) : undefined;
+            } else if (value) {
+                server[field.key] = value;
+            } else {
+                delete server[field.key];
+            }
+            return true;
+        });
+    }
+
+    private async renameServer(node: ServerNode) {
+        await this.edit(async config => {
+            const newAlias = await vscode.window.showInputBox({
+                prompt: `Rename server '${node.alias}'`,
+                value: node.alias,
+                validateInput: (value) => {
+                    if (!value) return 'Server alias is required';
+                    if (value !== node.alias && config.servers[value]) return 'Server with this name already exists';
+                    return undefined;
+                }
+            });
+            if (!newAlias || newAlias === node.alias) {
+                return false;
+            }
+
+            // Rebuild the object to keep the original order of servers
+            const servers: WWConfig['servers'] = {};
+            for (const [alias, server] of Object.entries(config.servers)) {
+                servers[alias === node.alias ? newAlias : alias] = server;
+            }
+            config.servers = servers;
+            renameGroupMember(config, node.alias, newAlias);
+            this.sessionState.renameServer(node.alias, newAlias);
+            await this.credentials.renameServer(node.alias, newAlias);
+            return true;
+        });
+    }
+
+    private async deleteServer(node: ServerNode) {
+        await this.edit(async config => {
+            const answer = await vscode.window.showWarningMessage(
+                `Delete server '${node.alias}' and all its mappings?`,
+                { modal: true },
+                'Delete'
+            );
+            if (answer !== 'Delete') {
+                return false;
+            }
+
+            delete config.servers[node.alias];
+            renameGroupMember(config, node.alias, undefined);
+            this.sessionState.renameServer(node.alias, undefined);
+            await this.credentials.renameServer(node.alias, undefined);
+            return true;
+        });
+    }
+
+    private async addMapping(node: ServerNode) {
+        await this.edit(async config => {
+            const server = config.servers[node.alias];
+            if (!server) {
+                return false;
+            }
+
+            const folders = await vscode.window.showOpenDialog({
+                canSelectFolders: true,
+                canSelectFiles: false,
+                canSelectMany: false,
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                openLabel: 'Select Local Folder'
+            });
+            if (!folders || folders.length === 0) {
+                return false;
+            }
+            const local = folders[0].fsPath;
+
+            const remote = await vscode.window.showInputBox({
+                prompt: 'Enter remote destination path',
+                placeHolder: '/var/www/my-app',
+                validateInput: (value) => value ? undefined : 'Remote path is required'
+            });
+            if (!remote) {
+                return false;
+            }
+
+            const excludesInput = await vscode.window.showInputBox({
+                prompt: 'Enter exclusions separated by commas (e.g. .git, node_modules)',
+                placeHolder: '.git, node_modules, build, .env, *.log',
+            });
+
+            const location = await pickConfigLocation(local);
+            if (location === undefined) {
+                return false;
+            }
+
+            const mapping: Mapping = { local, remote, excludes: excludesInput ? parseExcludes(excludesInput) : [] };
+            if (location) {
+                assignToProject(mapping, location);
+            }
+
+            server.mappings.push(mapping);
+            return true;
+        });
+    }
+
+    private async editRemote(node: MappingNode) {
+        await this.edit(async config => {
+            const mapping = this.findMapping(config, node);
+            if (!mapping) {
+                return false;
+            }
+
+            const remote = await vscode.window.showInputBox({
+                prompt: 'Enter remote destination path',
+                value: mapping.remote,
+                validateInput: (value) => value ? undefined : 'Remote path is required'
+            });
+            if (!remote || remote === mapping.remote) {
+                return false;
+            }
+
+            mapping.remote = remote;
+            return true;
+        });
+    }
+
+    private async editExcludes(node: MappingNode) {
+        await this.edit(async config => {
+            const mapping = this.findMapping(config, node);
+            if (!mapping) {
+                return false;
+            }
+
+            const excludesInput = await vscode.window.showInputBox({
+                prompt: 'Enter exclusions separated by commas (e.g. .git, node_modules)',
+                value: mapping.excludes.join(', ')
+            });
+            if (excludesInput === undefined) {
+                return false;
+            }
+
+            mapping.excludes = parseExcludes(excludesInput);
+            return true;
+        });
+    }
+
+    private async deleteExclude(node: ExcludeNode) {
+        await this.edit(config => {
+            const mapping = this.findMapping(config, node);
+            if (!mapping) {
+                return false;
+            }
+            mapping.excludes = mapping.excludes.filter(e => e !== node.pattern);
+            return true;
+        });
+    }
+
+    private async duplicateMapping(node: MappingNode) {
+        await this.edit(async config => {
+            const mapping = this.findMapping(config, node);
+            if (!mapping) {
+                return false;
+            }
+
+            const targets = Object.keys(config.servers).filter(alias => alias !== node.alias);
+            if (targets.length === 0) {
+                vscode.window.showInformationMessage('There is no other server to duplicate this mapping to.');
+                return false;
+            }
+
+            const target = await vscode.window.showQuickPick(
+                targets.map(alias => ({ label: alias, description: config.servers[alias].host ?? 'local folder' })),
+                { placeHolder: 'Duplicate mapping to server' }
+            );
+            if (!target) {
+                return false;
+            }
+
+            const remote = await vscode.window.showInputBox({
+                prompt: `Remote destination path on '${target.label}'`,
+                value: mapping.remote,
+                validateInput: (value) => value ? undefined : 'Remote path is required'
+            });
+            if (!remote) {
+                return false;
+            }
+
+            const copy: Mapping = { ...mapping, remote, excludes: [...mapping.excludes] };
+            // Keep the copy in the same file as the original
+            const source = getConfigSource(mapping);
+            if (source !== getConfigPath()) {
+                assignToProject(copy, path.dirname(source));
+            }
+
+            config.servers[target.label].mappings.push(copy);
+            return true;
+        });
+    }
+
+    private async deleteMapping(node: MappingNode) {
+        await this.edit(async config => {
+            const server = config.servers[node.alias];
+            const mapping = this.findMapping(config, node);
+            if (!server || !mapping) {
+                return false;
+            }
+
+            const answer = await vscode.window.showWarningMessage(
+                `Delete mapping ${mapping.local} → ${node.alias}:${mapping.remote}?`,
+                { modal: true },
+                'Delete'
+            );
+            if (answer !== 'Delete') {
+                return false;
+            }
+
+            server.mappings = server.mappings.filter(m => m !== mapping);
+            return true;
+        });
+    }
+}
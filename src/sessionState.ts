@@ -18,17 +18,80 @@ export class SessionState {
         }
     }
 
+    /**
+     * Updates remembered server choices after a server was renamed or deleted.
+     */
+    public renameServer(oldAlias: string, newAlias: string | undefined) {
+        let changed = false;
+        for (const [key, value] of this._serverChoice) {
+            if (value === oldAlias) {
+                if (newAlias) {
+                    this._serverChoice.set(key, newAlias);
+                } else {
+                    this._serverChoice.delete(key);
+                }
+                changed = true;
+            }
+        }
+        for (const key of [...this._mappingChoice.keys()]) {
+            if (key.startsWith(`${oldAlias}\n`)) {
+                this._mappingChoice.delete(key);
+            }
+        }
+        this.resetPasswords(oldAlias);
+        if (changed) {
+            this._onDidChange.fire();
+        }
+    }
+
+    // Chosen mapping (its local folder) per server alias and folder, when several mappings contain the folder
+    private _mappingChoice: Map<string, string> = new Map();
+
+    public getMapping(serverAlias: string, currentPath: string): string | undefined {
+        return this._mappingChoice.get(`${serverAlias}\n${currentPath}`);
+    }
+
+    public setMapping(serverAlias: string, currentPath: string, local: string) {
+        this._mappingChoice.set(`${serverAlias}\n${currentPath}`, local);
+    }
+
+    // Keyed by server alias and prompt, so identical prompts of different servers don't collide
     private _passwords: Map<string, string> = new Map();
 
-    public resetPasswords() {
-        this._passwords.clear();
+    public resetPasswords(serverAlias?: string) {
+        if (!serverAlias) {
+            this._passwords.clear();
+            return;
+        }
+        for (const key of [...this._passwords.keys()]) {
+            if (key.startsWith(`${serverAlias}\n`)) {
+                this._passwords.delete(key);
+            }
+        }
+    }
+
+    public getPassword(serverAlias: string, prompt: string): string | undefined {
+        return this._passwords.get(`${serverAlias}\n${prompt}`);
+    }
+
+    public setPassword(serverAlias: string, prompt: string, password: string) {
+        this._passwords.set(`${serverAlias}\n${prompt}`, password);
     }
 
-    public getPassword(prompt: string): string | undefined {
-        return this._passwords.get(prompt);
+    public deletePassword(serverAlias: string, prompt: string) {
+        this._passwords.delete(`${serverAlias}\n${prompt}`);
     }
 
-    public setPassword(prompt: string, password: string) {
-        this._passwords.set(prompt, password);
+    private _autoSyncPaused = false;
+
+    public isAutoSyncPaused(): boolean {
+        return this._autoSyncPaused;
+    }
+
+    public setAutoSyncPaused(paused: boolean) {
+        if (this._autoSyncPaused !== paused) {
+            this._autoSyncPaused = paused;
+            this._onDidChange.fire();
+        }
     }
 }
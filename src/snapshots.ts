@@ -0,0 +1,287 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Mapping } from './config';
+import { SyncSummary } from './progress';
+import type { ItemizedChange } from './rsync';
+import { SshTarget, execRemote, getRemoteLocation, quoteRemotePath } from './ssh';
+import { quoteShellArg } from './processes';
+
+const DEFAULT_SNAPSHOT_DIR = '.wwsync-snapshots';
+const DEFAULT_SNAPSHOT_KEEP = 10;
+const MANIFEST_FILE = '.wwsync-snapshot.json';
+
+// Snapshot folders are named after the UTC start time of their sync, e.g. "2026-10-19T08-30-05.123Z"
+const SNAPSHOT_NAME = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.\d{3}Z$/;
+const SNAPSHOT_NAME_GREP = '^[0-9]{4}-[0-9]{2}-[0-9]{2}T[0-9]{2}-[0-9]{2}-[0-9]{2}[.][0-9]{3}Z$';
+
+/**
+ * Written into every snapshot before its sync runs.
+ */
+export interface SnapshotManifest {
+    createdAt: number;
+    local: string;
+    /** Paths the sync added (folders end with "/"); removed again on restore */
+    created: string[];
+    modified: number;
+    deleted: number;
+}
+
+export interface Snapshot {
+    name: string;
+    /** Files kept in the snapshot */
+    files: number;
+    /** Missing if writing it failed */
+    manifest?: SnapshotManifest;
+}
+
+/**
+ * Remote snapshot folder of a mapping as configured (absolute or relative to `remote`),
+ * or undefined when snapshots are off.
+ */
+export function getSnapshotDir(mapping: Mapping): string | undefined {
+    if (!mapping.snapshots) {
+        return undefined;
+    }
+    return (mapping.snapshots === true ? undefined : mapping.snapshots.dir) ?? DEFAULT_SNAPSHOT_DIR;
+}
+
+function getSnapshotKeep(mapping: Mapping): number {
+    return (typeof mapping.snapshots === 'object' ? mapping.snapshots.keep : undefined) ?? DEFAULT_SNAPSHOT_KEEP;
+}
+
+/**
+ * Exclude rule keeping a snapshot folder inside the remote folder out of every transfer,
+ * so it is neither deleted by Full Sync nor pulled.
+ */
+export function getSnapshotExclude(mapping: Mapping): string | undefined {
+    const dir = getSnapshotDir(mapping);
+    if (!dir) {
+        return undefined;
+    }
+    const relative = getPathInRemote(dir, mapping.remote).replace(/\/$/, '');
+    return !relative || relative === '.' || relative === '..' || relative.startsWith('../') ? undefined : `/${relative}/`;
+}
+
+/**
+ * A snapshot folder relative to the remote folder. An absolute or home-relative folder is only
+ * compared with a remote folder of the same kind; otherwise it can't be inside and "" is returned.
+ */
+function getPathInRemote(dir: string, remote: string): string {
+    if (!dir.startsWith('/') && !dir.startsWith('~')) {
+        return path.posix.normalize(dir);
+    }
+    // rsync paths without a leading "/" are relative to the login (home) folder
+    const fromHome = (p: string) => p.startsWith('/') ? p : path.posix.join('~', p.replace(/^~(\/|$)/, ''));
+    const [from, to] = [fromHome(remote), fromHome(dir)];
+    if (from.startsWith('/') !== to.startsWith('/')) {
+        return '';
+    }
+    return path.posix.relative(from, to);
+}
+
+/**
+ * Named after the time in milliseconds, so two syncs in the same second get separate folders.
+ */
+export function createSnapshotName(date = new Date()): string {
+    return date.toISOString().replace(/:/g, '-');
+}
+
+/**
+ * rsync arguments moving every replaced or deleted file into the snapshot.
+ * A relative `--backup-dir` is relative to the destination, like the configured folder.
+ */
+export function buildSnapshotArgs(mapping: Mapping, name: string): string[] {
+    // No suffix: files keep their names, so the snapshot can be copied back as is
+    return ['--backup', `--backup-dir=${path.posix.join(getSnapshotDir(mapping)!, name)}`, '--suffix='];
+}
+
+/**
+ * Shell commands entering the remote folder; a relative snapshot folder is resolved from there.
+ */
+function enterRemote(mapping: Mapping): string {
+    const remote = quoteRemotePath(mapping.remote);
+    return `mkdir -p ${remote} && cd ${remote}`;
+}
+
+/**
+ * Creates the snapshot folder with its manifest before a Full Sync, and removes the snapshots
+ * beyond the retention limit.
+ */
+export async function prepareSnapshot(
+    outputChannel: vscode.OutputChannel,
+    server: SshTarget,
+    mapping: Mapping,
+    name: string,
+    changes: ItemizedChange[],
+    token?: vscode.CancellationToken,
+    env?: NodeJS.ProcessEnv
+): Promise<void> {
+    const dir = getSnapshotDir(mapping)!;
+    const manifest: SnapshotManifest = {
+        createdAt: Date.now(),
+        local: mapping.local,
+        created: changes.filter(c => c.kind === 'new').map(c => c.path),
+        modified: changes.filter(c => c.kind === 'modified').length,
+        deleted: changes.filter(c => c.kind === 'deleted').length
+    };
+    const snapshotDir = quoteRemotePath(path.posix.join(dir, name));
+
+    const script = [
+        enterRemote(mapping),
+        `mkdir -p ${snapshotDir}`,
+        `cat > ${snapshotDir}/${MANIFEST_FILE}`,
+        `cd ${quoteRemotePath(dir)}`,
+        `ls -1 | grep -E '${SNAPSHOT_NAME_GREP}' | sort -r | tail -n +${getSnapshotKeep(mapping) + 1} | while IFS= read -r d; do rm -rf -- "$d" && echo "$d"; done`
+    ].join(' && ');
+
+    const output = await execRemote(server, script, env, token, undefined, JSON.stringify(manifest));
+    outputChannel.appendLine(`Snapshot: replaced and deleted files are kept in ${path.posix.join(dir, name)}`);
+
+    const removed = output.toString().split('\n').filter(line => line.trim());
+    if (removed.length > 0) {
+        outputChannel.appendLine(`Removed ${removed.length} old snapshot(s): ${removed.join(', ')}`);
+    }
+}
+
+/**
+ * Snapshots of a mapping on the server, newest first.
+ */
+export async function listSnapshots(
+    server: SshTarget,
+    mapping: Mapping,
+    token?: vscode.CancellationToken,
+    env?: NodeJS.ProcessEnv
+): Promise<Snapshot[]> {
+    const dir = getSnapshotDir(mapping);
+    if (!dir) {
+        return [];
+    }
+
+    // One line per snapshot: name, number of kept files and the manifest
+    const script = `{ cd ${quoteRemotePath(mapping.remote)} && cd ${quoteRemotePath(dir)}; } 2>/dev/null || exit 0; `
+        + `for d in $(ls -1 | grep -E '${SNAPSHOT_NAME_GREP}' | sort -r); do `
+        + `printf '%s\\t%s\\t' "$d" "$(find "$d" -type f ! -name ${MANIFEST_FILE} | wc -l)"; `
+        + `cat "$d/${MANIFEST_FILE}" 2>/dev/null; echo; done`;
+    const output = await execRemote(server, script, env, token);
+
+    const snapshots: Snapshot[] = [];
+    for (const line of output.toString().split('\n')) {
+        const [name, files, manifest] = line.split('\t');
+        if (!SNAPSHOT_NAME.test(name)) {
+            continue;
+        }
+        let parsed: SnapshotManifest | undefined;
+        try {
+            parsed = manifest ? JSON.parse(manifest) : undefined;
+        } catch {
+            parsed = undefined;
+        }
+        snapshots.push({ name, files: parseInt(files, 10) || 0, manifest: parsed });
+    }
+    return snapshots;
+}
+
+// Size of the arguments of one command in the restore script, well below the usual ARG_MAX of 128 KiB and more
+const MAX_BATCH_LENGTH = 32 * 1024;
+
+/**
+ * Splits arguments into groups whose total length stays below MAX_BATCH_LENGTH.
+ */
+export function toBatches(args: string[]): string[][] {
+    const batches: string[][] = [];
+    let length = 0;
+    for (const arg of args) {
+        if (batches.length === 0 || length + arg.length + 1 > MAX_BATCH_LENGTH) {
+            batches.push([]);
+            length = 0;
+        }
+        batches[batches.length - 1].push(arg);
+        length += arg.length + 1;
+    }
+    return batches;
+}
+
+/**
+ * Rolls the remote folder back to its state before the sync of snapshot `name`.
+ * Later snapshots are undone first, newest to oldest: added files are removed, kept files copied back.
+ * Applied snapshots are deleted.
+ */
+export async function restoreSnapshot(
+    outputChannel: vscode.OutputChannel,
+    server: SshTarget,
+    mapping: Mapping,
+    name: string,
+    token?: vscode.CancellationToken,
+    env?: NodeJS.ProcessEnv
+): Promise<SyncSummary> {
+    const startTime = Date.now();
+    const dir = getSnapshotDir(mapping);
+    if (!dir) {
+        throw new Error(`Snapshots are not enabled for ${mapping.local}.`);
+    }
+
+    outputChannel.appendLine('');
+    outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+    outputChannel.appendLine(`>>> Restore Snapshot: ${getRemoteLocation(server, mapping.remote)} to its state before ${name}`);
+    outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+
+    const snapshots = await listSnapshots(server, mapping, token, env);
+    const index = snapshots.findIndex(s => s.name === name);
+    if (index === -1) {
+        throw new Error(`Snapshot ${name} no longer exists on the server.`);
+    }
+    const applied = snapshots.slice(0, index + 1);
+
+    const lines = ['set -e', `cd ${quoteRemotePath(mapping.remote)}`];
+    let restored = 0;
+    let removed = 0;
+    for (const snapshot of applied) {
+        const snapshotDir = path.posix.join(dir, snapshot.name);
+        const created = snapshot.manifest?.created ?? [];
+        const files = created.filter(p => !p.endsWith('/'));
+        // Deepest folders first, so parents are empty by the time they are removed
+        const folders = created.filter(p => p.endsWith('/')).sort((a, b) => b.length - a.length);
+
+        lines.push(`echo 'Undoing ${snapshot.name}...'`);
+        // Relative to the remote folder, never home-relative; in batches to stay below the argument size limit
+        for (const batch of toBatches(files.map(quoteShellArg))) {
+            lines.push(`rm -f -- ${batch.join(' ')}`);
+        }
+        // Folders that got other content since are left in place
+        for (const batch of toBatches(folders.map(quoteShellArg))) {
+            lines.push(`rmdir -- ${batch.join(' ')} 2>/dev/null || true`);
+        }
+        lines.push(`rsync -a --exclude=/${MANIFEST_FILE} ${quoteRemotePath(snapshotDir + '/')} ./`);
+        lines.push(`rm -rf -- ${quoteRemotePath(snapshotDir)}`);
+
+        if (!snapshot.manifest) {
+            outputChannel.appendLine(`⚠️  ${snapshot.name} has no manifest; files added by its sync are not removed.`);
+        }
+        restored += snapshot.files;
+        removed += files.length;
+    }
+
+    outputChannel.appendLine(`Applying ${applied.length} snapshot(s): ${applied.map(s => s.name).join(', ')}`);
+    try {
+        const output = await execRemote(server, 'sh -s', env, token, undefined, lines.join('\n') + '\n');
+        output.toString().split('\n').filter(line => line.trim()).forEach(line => outputChannel.appendLine(line));
+    } catch (error: any) {
+        outputChannel.appendLine(`✖ Restore failed: ${error.message}`);
+        throw error;
+    }
+
+    outputChannel.appendLine('');
+    outputChannel.appendLine(`✔ Restore completed: ${restored} file(s) copied back, ${removed} added file(s) removed.`);
+    vscode.window.setStatusBarMessage(`Restore completed: ${restored} file(s) copied back.`, 5000);
+
+    return {
+        filesTransferred: restored,
+        filesDeleted: removed,
+        totalFiles: restored,
+        bytesSent: 0,
+        bytesReceived: 0,
+        totalSize: 0,
+        speedup: 0,
+        durationMs: Date.now() - startTime
+    };
+}
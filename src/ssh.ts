@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { ServerConfig } from './config';
+import { spawnProcess, killProcess, quoteShellArg } from './processes';
+
+/**
+ * The parts of a server config needed to open an SSH connection (or to reach a local target).
+ */
+export type SshTarget = Pick<ServerConfig, 'type' | 'host' | 'port' | 'identityFile' | 'proxyJump' | 'user' | 'sshOptions'>;
+
+function expandHome(p: string): string {
+    return p === '~' || p.startsWith('~/') ? path.join(os.homedir(), p.substring(1)) : p;
+}
+
+/**
+ * Whether the target is a local folder (`"type": "local"`) instead of an SSH server.
+ */
+export function isLocalTarget(target: SshTarget): boolean {
+    return target.type === 'local';
+}
+
+/**
+ * `user@host` for the connection. A user already given in `host` wins over `user`.
+ * Local targets have no connection and are shown as "local".
+ */
+export function getDestination(target: SshTarget): string {
+    if (isLocalTarget(target) || !target.host) {
+        return 'local';
+    }
+    return target.user && !target.host.includes('@') ? `${target.user}@${target.host}` : target.host;
+}
+
+/**
+ * A path on the target as rsync expects it: `user@host:path`, or the plain path of a local target.
+ * With `--protect-args` the remote shell no longer expands `~`, so a home-relative path is passed
+ * relative to the login directory instead.
+ */
+export function getRemoteLocation(target: SshTarget, remotePath: string): string {
+    if (isLocalTarget(target)) {
+        return expandHome(remotePath);
+    }
+    return `${getDestination(target)}:${remotePath.replace(/^~(\/|$)/, '')}`;
+}
+
+/**
+ * Program and arguments running a shell command on the target: over ssh,
+ * or in a local shell for local targets. `--` keeps ssh from reading the destination as an option.
+ */
+export function buildRemoteCommand(target: SshTarget, command: string): [string, string[]] {
+    return isLocalTarget(target)
+        ? ['sh', ['-c', command]]
+        : ['ssh', [...buildSshArgs(target), '--', getDestination(target), command]];
+}
+
+/**
+ * ssh arguments for the server's connection options (without the destination).
+ */
+export function buildSshArgs(target: SshTarget): string[] {
+    const args: string[] = [];
+
+    if (target.port) {
+        args.push('-p', String(target.port));
+    }
+    if (target.identityFile) {
+        args.push('-i', expandHome(target.identityFile));
+    }
+    if (target.proxyJump) {
+        args.push('-J', target.proxyJump);
+    }
+    for (const option of target.sshOptions ?? []) {
+        args.push('-o', option);
+    }
+
+    return args;
+}
+
+/**
+ * Remote shell command for rsync's `-e`, or undefined when plain `ssh` will do.
+ * rsync splits the command itself: on spaces outside quotes, and a quote inside quotes is
+ * written twice (a backslash does not escape it as in a shell).
+ */
+export function buildSshCommand(target: SshTarget): string | undefined {
+    const args = buildSshArgs(target);
+    if (args.length === 0) {
+        return undefined;
+    }
+    const quoted = args.map(a => a.includes(`'`) ? `'${a.replace(/'/g, `''`)}'` : quoteShellArg(a));
+    return ['ssh', ...quoted].join(' ');
+}
+
+/**
+ * Single-quotes a path for the remote (POSIX) shell. A leading `~/` stays unquoted so it is still expanded.
+ */
+export function quoteRemotePath(p: string): string {
+    if (p === '~' || p === '~/') {
+        return '~';
+    }
+    return p.startsWith('~/') ? `~/${quoteShellArg(p.substring(2))}` : quoteShellArg(p);
+}
+
+/**
+ * Runs a command on the server (or locally for a local target) and resolves with its standard output.
+ * Rejects with the command's error output, or when the output grows beyond `maxBytes`.
+ * `input` is written to the command's standard input.
+ */
+export function execRemote(
+    target: SshTarget,
+    command: string,
+    env?: NodeJS.ProcessEnv,
+    token?: vscode.CancellationToken,
+    maxBytes?: number,
+    input?: string
+): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const [program, args] = buildRemoteCommand(target, command);
+        const stdin = input === undefined ? 'ignore' : 'pipe';
+        const proc = spawnProcess(program, args, { stdio: [stdin, 'pipe', 'pipe'], env: { ...process.env, ...env } });
+        if (input !== undefined) {
+            // ssh may exit before reading everything; its exit code is reported below
+            proc.stdin!.on('error', () => { });
+            proc.stdin!.end(input);
+        }
+
+        const cancellation = token?.onCancellationRequested(() => killProcess(proc));
+        const chunks: Buffer[] = [];
+        let size = 0;
+        let stderr = '';
+        proc.stdout!.on('data', (data: Buffer) => {
+            size += data.length;
+            if (maxBytes !== undefined && size > maxBytes) {
+                killProcess(proc);
+                reject(new Error(`Remote output exceeds ${maxBytes} bytes.`));
+                return;
+            }
+            chunks.push(data);
+        });
+        proc.stderr!.on('data', (data: Buffer) => stderr += data.toString());
+
+        proc.on('close', (code: number | null) => {
+            cancellation?.dispose();
+            if (code === 0) {
+                resolve(Buffer.concat(chunks));
+            } else {
+                reject(new Error(stderr.trim() || `${program} exited with code ${code}`));
+            }
+        });
+
+        proc.on('error', (err: Error) => {
+            cancellation?.dispose();
+            reject(err);
+        });
+    });
+}
+
+/**
+ * Opens and closes an SSH connection, so password and passphrase prompts are answered
+ * (and cached) before anything else runs. Rejects with ssh's error output.
+ */
+export async function checkConnection(target: SshTarget, env?: NodeJS.ProcessEnv, token?: vscode.CancellationToken): Promise<void> {
+    await execRemote(target, 'exit', env, token);
+}
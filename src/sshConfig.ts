@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * A concrete `Host` alias from ~/.ssh/config with the settings that apply to it.
+ */
+export interface SshConfigHost {
+    alias: string;
+    hostName?: string;
+    user?: string;
+    port?: string;
+    proxyJump?: string;
+    /** File the alias is defined in */
+    source: string;
+}
+
+interface SshConfigBlock {
+    /** `Host` patterns; undefined for options before the first `Host` (apply to all) */
+    patterns: string[] | undefined;
+    /** `Match` blocks are not evaluated */
+    isMatch: boolean;
+    options: [string, string][];
+    source: string;
+}
+
+const SSH_DIR = path.join(os.homedir(), '.ssh');
+const MAX_INCLUDE_DEPTH = 16;
+
+function expandHome(p: string): string {
+    return p === '~' || p.startsWith('~/') ? path.join(os.homedir(), p.substring(1)) : p;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`, 'i');
+}
+
+function matchesPatterns(alias: string, patterns: string[]): boolean {
+    let matched = false;
+    for (const pattern of patterns) {
+        if (pattern.startsWith('!')) {
+            if (patternToRegExp(pattern.substring(1)).test(alias)) {
+                return false;
+            }
+        } else if (patternToRegExp(pattern).test(alias)) {
+            matched = true;
+        }
+    }
+    return matched;
+}
+
+/**
+ * Files matched by an `Include` argument; relative paths are relative to ~/.ssh.
+ * Wildcards are supported in the file name only.
+ */
+function resolveInclude(arg: string): string[] {
+    const fullPath = path.resolve(SSH_DIR, expandHome(arg));
+    const dir = path.dirname(fullPath);
+    const name = path.basename(fullPath);
+
+    if (!/[*?]/.test(name)) {
+        return [fullPath];
+    }
+    try {
+        const regex = patternToRegExp(name);
+        return fs.readdirSync(dir)
+            .filter(f => regex.test(f))
+            .sort()
+            .map(f => path.join(dir, f));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Splits a config line into keyword and arguments ("Key value", "Key=value", quoted arguments).
+ */
+function parseLine(line: string): [string, string[]] | undefined {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+        return undefined;
+    }
+    const match = /^(\S+?)(?:\s*=\s*|\s+)(.*)$/.exec(trimmed);
+    if (!match) {
+        return undefined;
+    }
+    const args = [...match[2].matchAll(/"([^"]*)"|(\S+)/g)].map(m => m[1] ?? m[2]);
+    return [match[1].toLowerCase(), args];
+}
+
+function readBlocks(filePath: string, blocks: SshConfigBlock[], depth: number) {
+    let content: string;
+    try {
+        content = fs.readFileSync(filePath, 'utf-8');
+    } catch {
+        return;
+    }
+
+    for (const line of content.split(/\r?\n/)) {
+        const parsed = parseLine(line);
+        if (!parsed) {
+            continue;
+        }
+        const [keyword, args] = parsed;
+
+        if (keyword === 'host') {
+            blocks.push({ patterns: args, isMatch: false, options: [], source: filePath });
+        } else if (keyword === 'match') {
+            blocks.push({ patterns: undefined, isMatch: true, options: [], source: filePath });
+        } else if (keyword === 'include') {
+            // Included lines belong to the current Host block until they start their own
+            if (depth < MAX_INCLUDE_DEPTH) {
+                const current = blocks[blocks.length - 1];
+                for (const file of args.flatMap(resolveInclude)) {
+                    blocks.push({ ...current, options: [], source: file });
+                    readBlocks(file, blocks, depth + 1);
+                }
+                blocks.push({ ...current, options: [], source: filePath });
+            }
+        } else if (args.length > 0) {
+            blocks[blocks.length - 1].options.push([keyword, args.join(' ')]);
+        }
+    }
+}
+
+/**
+ * Lists the concrete host aliases (no wildcards) of an OpenSSH client config, including `Include`d files.
+ * Settings are resolved like ssh does: the first value found for a keyword wins.
+ */
+export function readSshConfigHosts(configPath = path.join(SSH_DIR, 'config')): SshConfigHost[] {
+    const blocks: SshConfigBlock[] = [{ patterns: undefined, isMatch: false, options: [], source: configPath }];
+    readBlocks(configPath, blocks, 0);
+
+    const hosts: SshConfigHost[] = [];
+    const seen = new Set<string>();
+
+    for (const block of blocks) {
+        for (const alias of block.patterns ?? []) {
+            if (/[*?!]/.test(alias) || seen.has(alias.toLowerCase())) {
+                continue;
+            }
+            seen.add(alias.toLowerCase());
+
+            const settings = new Map<string, string>();
+            for (const candidate of blocks) {
+                if (candidate.isMatch || (candidate.patterns && !matchesPatterns(alias, candidate.patterns))) {
+                    continue;
+                }
+                for (const [keyword, value] of candidate.options) {
+                    if (!settings.has(keyword)) {
+                        settings.set(keyword, value);
+                    }
+                }
+            }
+
+            hosts.push({
+                alias,
+                hostName: settings.get('hostname')?.replace(/%h/g, alias),
+                user: settings.get('user'),
+                port: settings.get('port'),
+                proxyJump: settings.get('proxyjump'),
+                source: block.source
+            });
+        }
+    }
+
+    return hosts;
+}
+
+/**
+ * Short description of where an alias connects to, e.g. "deploy@10.0.0.5:2222".
+ */
+export function describeSshHost(host: SshConfigHost): string {
+    const user = host.user ? `${host.user}@` : '';
+    const port = host.port && host.port !== '22' ? `:${host.port}` : '';
+    return `${user}${host.hostName ?? host.alias}${port}`;
+}
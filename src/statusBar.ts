@@ -3,15 +3,25 @@ import * as path from 'path';
 import { SessionState } from './sessionState';
 import { loadConfig } from './config';
 import { findServersForPath } from './serverSelector';
+import { DriftMonitor, DriftState, getActiveWorkspaceFolder } from './drift';
+import { SyncJobQueue } from './jobQueue';
+import { SYNC_COMMAND_TITLES } from './syncJob';
+import { RemoteCommandEntry, SYNC_FIRST_BUTTON, describeCommand, getRemoteCommands } from './remoteCommands';
+
+const MAX_TOOLTIP_FILES = 10;
 
 export class WWSyncStatusBar {
     private statusBarItem: vscode.StatusBarItem;
     private context: vscode.ExtensionContext;
     private sessionState: SessionState;
+    private drift: DriftMonitor;
+    private jobQueue: SyncJobQueue;
 
-    constructor(context: vscode.ExtensionContext, sessionState: SessionState) {
+    constructor(context: vscode.ExtensionContext, sessionState: SessionState, drift: DriftMonitor, jobQueue: SyncJobQueue) {
         this.context = context;
         this.sessionState = sessionState;
+        this.drift = drift;
+        this.jobQueue = jobQueue;
 
         this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
         this.statusBarItem.command = 'wwsync.showMenu';
@@ -21,6 +31,8 @@ export class WWSyncStatusBar {
         context.subscriptions.push(
             vscode.window.onDidChangeActiveTextEditor(() => this.update()),
             this.sessionState.onDidChange(() => this.update()),
+            this.drift.onDidChange(() => this.update()),
+            this.jobQueue.onDidChange(() => this.update()),
             vscode.workspace.onDidChangeConfiguration((e) => {
                 if (e.affectsConfiguration('wwsync.showStatusBar')) {
                     this.updateVisibility();
@@ -42,25 +54,6 @@ export class WWSyncStatusBar {
         }
     }
 
-    private async getCurrentWorkspaceFolder(): Promise<string | undefined> {
-        // 1. Try active text editor
-        const activeEditor = vscode.window.activeTextEditor;
-        if (activeEditor) {
-            const workspaceFolder = vscode.workspace.getWorkspaceFolder(activeEditor.document.uri);
-            if (workspaceFolder) {
-                return workspaceFolder.uri.fsPath;
-            }
-        }
-
-        // 2. Try to get workspace folders if single root
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders && workspaceFolders.length === 1) {
-            return workspaceFolders[0].uri.fsPath;
-        }
-
-        return undefined;
-    }
-
     private async getServerForCurrentFolder(currentPath: string): Promise<string | undefined> {
         // Check session state first
         const sessionServer = this.sessionState.get(currentPath);
@@ -88,27 +81,99 @@ export class WWSyncStatusBar {
             return;
         }
 
-        const currentPath = await this.getCurrentWorkspaceFolder();
+        const currentPath = getActiveWorkspaceFolder();
+        this.statusBarItem.command = 'wwsync.showMenu';
+        this.statusBarItem.backgroundColor = undefined;
 
         if (!currentPath) {
             this.statusBarItem.text = '$(sync) WWSync';
             this.statusBarItem.tooltip = 'WWSync: No active workspace folder';
         } else {
-            const serverName = await this.getServerForCurrentFolder(currentPath);
+            let serverName: string | undefined;
+            try {
+                serverName = await this.getServerForCurrentFolder(currentPath);
+            } catch (error: any) {
+                this.statusBarItem.text = '$(warning) WWSync';
+                this.statusBarItem.tooltip = `WWSync: ${error.message}`;
+                this.statusBarItem.command = 'wwsync.openConfig';
+                this.statusBarItem.show();
+                return;
+            }
             if (serverName) {
                 this.statusBarItem.text = `$(sync) WWSync: ${serverName}`;
                 this.statusBarItem.tooltip = `WWSync: Connected to ${serverName}`;
+                const drift = this.drift.getState(currentPath, serverName);
+                if (drift) {
+                    this.showDrift(drift);
+                }
             } else {
                 this.statusBarItem.text = '$(sync) WWSync';
                 this.statusBarItem.tooltip = 'WWSync: Click to select server';
             }
         }
 
+        if (this.sessionState.isAutoSyncPaused()) {
+            this.statusBarItem.text = this.statusBarItem.text.replace('$(sync)', '$(sync-ignored)');
+            this.statusBarItem.tooltip += ' (auto sync paused)';
+        }
+
+        const jobs = this.jobQueue.getJobs();
+        if (jobs.length > 0) {
+            const running = jobs.filter(j => j.state === 'running').length;
+            this.statusBarItem.text = this.statusBarItem.text.replace(/^\$\(sync(-ignored)?\)/, '$(sync~spin)');
+            this.statusBarItem.tooltip += `\n${running} sync job(s) running, ${jobs.length - running} queued`;
+        }
+
         this.statusBarItem.show();
     }
 
+    private showDrift(drift: DriftState) {
+        const listFiles = (title: string, changes: { path: string }[]) => {
+            const shown = changes.slice(0, MAX_TOOLTIP_FILES).map(c => `  ${c.path}`);
+            if (changes.length > MAX_TOOLTIP_FILES) {
+                shown.push(`  ... and ${changes.length - MAX_TOOLTIP_FILES} more`);
+            }
+            return `\n\n${title}:\n${shown.join('\n')}`;
+        };
+
+        switch (drift.status) {
+            case 'checking':
+                this.statusBarItem.text += ' $(loading~spin)';
+                this.statusBarItem.tooltip += '\nChecking for remote drift...';
+                return;
+            case 'failed':
+                this.statusBarItem.text += ' $(question)';
+                this.statusBarItem.tooltip += `\nDrift check failed: ${drift.error}`;
+                return;
+            case 'inSync':
+                this.statusBarItem.text += ' $(check)';
+                this.statusBarItem.tooltip += '\nLocal and remote files are in sync.';
+                break;
+            case 'localChanges':
+                this.statusBarItem.text += ` $(arrow-up) ${drift.localChanges.length}`;
+                this.statusBarItem.tooltip += listFiles('Changed locally', drift.localChanges);
+                break;
+            case 'remoteDrift':
+                this.statusBarItem.text += ` $(warning) ${drift.remoteDrift.length}`;
+                this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+                this.statusBarItem.tooltip += listFiles('Changed on the server', drift.remoteDrift);
+                if (drift.localChanges.length > 0) {
+                    this.statusBarItem.tooltip += listFiles('Changed locally', drift.localChanges);
+                }
+                break;
+        }
+
+        if (drift.status !== 'inSync') {
+            this.statusBarItem.tooltip += '\n\nClick to open the drift report.';
+            this.statusBarItem.command = 'wwsync.showDriftReport';
+        }
+        if (drift.checkedAt) {
+            this.statusBarItem.tooltip += `\n(checked ${new Date(drift.checkedAt).toLocaleTimeString()})`;
+        }
+    }
+
     public async showMenu() {
-        let currentPath = await this.getCurrentWorkspaceFolder();
+        let currentPath = getActiveWorkspaceFolder();
 
         if (!currentPath) {
             // If multiple workspaces, let user pick one to operate on
@@ -142,9 +207,53 @@ export class WWSyncStatusBar {
         const actionItems: vscode.QuickPickItem[] = [
             { label: '$(cloud-upload) Safe Sync', description: 'wwsync.safeSync' },
             { label: '$(sync) Full Sync', description: 'wwsync.fullSync' },
-            { label: '$(terminal) Run Remote Session', description: 'wwsync.run' }
+            { label: '$(cloud-download) Safe Pull', description: 'wwsync.pullSafe' },
+            { label: '$(repo-pull) Full Pull', description: 'wwsync.pullFull' },
+            ...(servers.length > 1 || Object.keys(config.groups ?? {}).length > 0
+                ? [{ label: '$(server-environment) Sync Group', description: 'wwsync.syncGroup' }]
+                : []),
+            { label: '$(terminal) Run Remote Session', description: 'wwsync.run' },
+            { label: '$(search) Check for Remote Drift', description: 'wwsync.checkDrift' },
+            this.sessionState.isAutoSyncPaused()
+                ? { label: '$(play) Resume Auto Sync', description: 'wwsync.toggleAutoSync' }
+                : { label: '$(debug-pause) Pause Auto Sync', description: 'wwsync.toggleAutoSync' }
         ];
 
+        // Queued and running jobs; picking one cancels it
+        const jobs = this.jobQueue.getJobs();
+        const jobItems = jobs.map(job => ({
+            label: `${job.state === 'running' ? '$(loading~spin)' : '$(clock)'} ${SYNC_COMMAND_TITLES[job.job.command]} → ${job.job.serverAlias}`,
+            description: job.state,
+            detail: `${job.job.mapping.local} · select to cancel`,
+            id: job.id
+        }));
+        if (jobs.length > 0) {
+            actionItems.push({ label: '$(stop-circle) Cancel All', description: 'wwsync.cancelAll' });
+        }
+        const jobSection: vscode.QuickPickItem[] = jobs.length > 0
+            ? [
+                { label: 'Sync Jobs', kind: vscode.QuickPickItemKind.Separator },
+                ...jobItems,
+                { label: 'Actions', kind: vscode.QuickPickItemKind.Separator }
+            ]
+            : [];
+
+        // Named commands of the folder's mappings; the button syncs first
+        const commands = getRemoteCommands(config, currentPath, this.sessionState);
+        const multipleServers = new Set(commands.map(c => c.serverAlias)).size > 1;
+        const commandItems = commands.map(entry => ({
+            label: `$(play) ${entry.command.name}`,
+            description: describeCommand(entry, multipleServers),
+            detail: entry.command.command,
+            buttons: [SYNC_FIRST_BUTTON],
+            entry
+        }));
+        const commandSection: vscode.QuickPickItem[] = commandItems.length > 0
+            ? [{ label: 'Remote Commands', kind: vscode.QuickPickItemKind.Separator }, ...commandItems]
+            : [];
+        const runCommand = (entry: RemoteCommandEntry, sync?: 'safe') =>
+            vscode.commands.executeCommand('wwsync.runCommand', entry.serverAlias, entry.mapping.local, entry.command.name, sync);
+
         const separator: vscode.QuickPickItem = { label: 'Select Default Server', kind: vscode.QuickPickItemKind.Separator };
 
         let serverItems: vscode.QuickPickItem[] = [];
@@ -159,15 +268,30 @@ export class WWSyncStatusBar {
             }));
         }
 
-        quickPick.items = [...actionItems, separator, ...serverItems];
+        quickPick.items = [...jobSection, ...actionItems, ...commandSection, separator, ...serverItems];
+
+        quickPick.onDidTriggerItemButton(e => {
+            const commandItem = commandItems.find(item => item === e.item);
+            if (commandItem) {
+                quickPick.hide();
+                runCommand(commandItem.entry, 'safe');
+            }
+        });
 
         quickPick.onDidChangeSelection(async selection => {
             const selected = selection[0];
             if (selected) {
                 quickPick.hide();
 
+                const jobItem = jobItems.find(item => item === selected);
+                const commandItem = commandItems.find(item => item === selected);
+                if (jobItem) {
+                    this.jobQueue.cancel(jobItem.id);
+                } else if (commandItem) {
+                    runCommand(commandItem.entry);
+                }
                 // Check if it's an action
-                if (actionItems.some(item => item.label === selected.label)) {
+                else if (actionItems.some(item => item.label === selected.label)) {
                     vscode.commands.executeCommand(selected.description!);
                 }
                 // It's a server selection
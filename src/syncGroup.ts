@@ -0,0 +1,440 @@
+import * as vscode from 'vscode';
+import { loadConfig, resolveMapping, Mapping, ServerConfig, WWConfig } from './config';
+import { findMapping, findServersForPath } from './serverSelector';
+import { runSafeSync, planFullSync, applyFullSync, needsFullSyncReview, ItemizedChange } from './rsync';
+import { runHooks } from './hooks';
+import { checkConnection } from './ssh';
+import { AskPassSession, withAskPass } from './askPass';
+import { CredentialStore } from './credentials';
+import { SessionState } from './sessionState';
+import { SyncHistory } from './history';
+import { SyncReviewView } from './syncReview';
+import { SyncJob, SYNC_COMMAND_TITLES } from './syncJob';
+import { SyncSummary, formatSummary } from './progress';
+import { SyncJobQueue, anyCancellation } from './jobQueue';
+
+type GroupCommand = 'safeSync' | 'fullSync';
+
+interface GroupMember {
+    serverAlias: string;
+    server: ServerConfig;
+    mapping: Mapping;
+}
+
+interface MemberResult {
+    member: GroupMember;
+    /** AskPass environment of the server's connections */
+    env?: NodeJS.ProcessEnv;
+    status: 'pending' | 'success' | 'failed' | 'cancelled';
+    summary?: SyncSummary;
+    error?: string;
+}
+
+/**
+ * Runs at most `limit` tasks at the same time.
+ */
+class Limiter {
+    private active = 0;
+    private waiting: (() => void)[] = [];
+
+    constructor(private limit: number) { }
+
+    public async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.active >= this.limit) {
+            // The finishing task hands its slot over
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        } else {
+            this.active++;
+        }
+        try {
+            return await task();
+        } finally {
+            const next = this.waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+}
+
+/**
+ * Prefixes every line with the server alias, so concurrent syncs stay readable in the shared output channel.
+ */
+class PrefixedOutputChannel implements vscode.OutputChannel {
+    private atLineStart = true;
+
+    constructor(private target: vscode.OutputChannel, private prefix: string) { }
+
+    get name(): string {
+        return this.target.name;
+    }
+
+    append(value: string): void {
+        const lines = value.split('\n');
+        const prefixed = lines.map((line, i) => {
+            const startsLine = i > 0 || this.atLineStart;
+            return startsLine && line ? `[${this.prefix}] ${line}` : line;
+        });
+        this.atLineStart = value.endsWith('\n');
+        this.target.append(prefixed.join('\n'));
+    }
+
+    appendLine(value: string): void {
+        this.append(value + '\n');
+    }
+
+    replace(value: string): void {
+        this.target.replace(value);
+    }
+
+    clear(): void {
+        this.target.clear();
+    }
+
+    show(columnOrPreserveFocus?: vscode.ViewColumn | boolean, preserveFocus?: boolean): void {
+        if (typeof columnOrPreserveFocus === 'boolean') {
+            this.target.show(columnOrPreserveFocus);
+        } else {
+            this.target.show(columnOrPreserveFocus, preserveFocus);
+        }
+    }
+
+    hide(): void {
+        this.target.hide();
+    }
+
+    dispose(): void {
+        // The underlying channel is owned by the extension
+    }
+}
+
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(r => resolve = r);
+    return { promise, resolve };
+}
+
+/**
+ * 'WWSync: Sync Group': syncs one folder to all servers of a group concurrently,
+ * with a combined review for Full Sync and a combined report at the end.
+ */
+export class GroupSync {
+    constructor(
+        private outputChannel: vscode.OutputChannel,
+        private sessionState: SessionState,
+        private credentials: CredentialStore,
+        private history: SyncHistory,
+        private syncReview: SyncReviewView,
+        private jobQueue: SyncJobQueue
+    ) { }
+
+    public async run(currentPath: string): Promise<void> {
+        const config = loadConfig();
+        const selection = await this.selectGroup(config, currentPath);
+        if (!selection) {
+            return;
+        }
+
+        const mode = await vscode.window.showQuickPick(
+            [
+                { label: '$(cloud-upload) Safe Sync', description: 'Upload without deleting anything', command: 'safeSync' as const },
+                { label: '$(sync) Full Sync', description: 'Mirror, with one review of all deletions', command: 'fullSync' as const }
+            ],
+            { placeHolder: `Sync ${selection.members.length} server(s) of '${selection.name}'` }
+        );
+        if (!mode) {
+            return;
+        }
+
+        await this.syncMembers(selection.name, selection.members, mode.command);
+    }
+
+    private async selectGroup(config: WWConfig, currentPath: string): Promise<{ name: string; members: GroupMember[] } | undefined> {
+        const resolveMembers = (aliases: string[]): GroupMember[] => aliases.flatMap(serverAlias => {
+            const server = config.servers[serverAlias];
+            const mapping = server && findMapping(server, currentPath);
+            return server && mapping ? [{ serverAlias, server, mapping: resolveMapping(server, mapping) }] : [];
+        });
+
+        const items = Object.entries(config.groups ?? {})
+            .map(([name, aliases]) => ({ name, aliases, members: resolveMembers(aliases) }))
+            .filter(g => g.members.length > 0)
+            .map(g => ({
+                label: `$(server-environment) ${g.name}`,
+                description: `${g.members.length}/${g.aliases.length} server(s) mapped to this folder`,
+                detail: g.aliases.join(', '),
+                name: g.name,
+                aliases: g.aliases,
+                members: g.members
+            }));
+
+        const mapped = findServersForPath(config, currentPath);
+        if (mapped.length > 1) {
+            items.push({
+                label: '$(globe) All servers for this folder',
+                description: `${mapped.length} server(s)`,
+                detail: mapped.join(', '),
+                name: 'all',
+                aliases: mapped,
+                members: resolveMembers(mapped)
+            });
+        }
+
+        if (items.length === 0) {
+            vscode.window.showErrorMessage(
+                'No server group has a mapping for this folder. Add "groups" to the WWSync config, e.g. "groups": { "web": ["web1", "web2"] }.'
+            );
+            return undefined;
+        }
+
+        const picked = items.length === 1
+            ? items[0]
+            : await vscode.window.showQuickPick(items, { placeHolder: 'Select server group' });
+        if (!picked) {
+            return undefined;
+        }
+
+        for (const alias of picked.aliases) {
+            if (!picked.members.some(m => m.serverAlias === alias)) {
+                this.outputChannel.appendLine(`⚠️  Skipping '${alias}' of group '${picked.name}': ${config.servers[alias] ? 'no mapping for this folder' : 'unknown server'}.`);
+            }
+        }
+
+        return { name: picked.name, members: picked.members };
+    }
+
+    private async syncMembers(groupName: string, members: GroupMember[], command: GroupCommand): Promise<void> {
+        const title = SYNC_COMMAND_TITLES[command];
+        const parallelism = Math.max(1, vscode.workspace.getConfiguration('wwsync').get<number>('groupParallelism', 3));
+        const limiter = new Limiter(parallelism);
+
+        const results: MemberResult[] = members.map(member => ({ member, status: 'pending' }));
+
+        this.outputChannel.show(true);
+        this.outputChannel.appendLine('');
+        this.outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+        this.outputChannel.appendLine(`>>> Group '${groupName}' (${title}): ${members.map(m => m.serverAlias).join(', ')}`);
+        this.outputChannel.appendLine(`Up to ${parallelism} server(s) at a time.`);
+        this.outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+
+        // One AskPass per server (credentials are stored per server), sharing prompts and answers;
+        // all of them stay up until every member is done
+        const askPassSession = new AskPassSession();
+        const withMemberAskPass = (i: number): Promise<void> => i < results.length
+            ? withAskPass(this.sessionState, this.credentials, results[i].member.serverAlias, env => {
+                results[i].env = env;
+                return withMemberAskPass(i + 1);
+            }, { session: askPassSession })
+            : this.syncReady(results, command, limiter);
+        await withMemberAskPass(0);
+
+        await this.report(groupName, title, results);
+    }
+
+    /**
+     * Connects to the members, then syncs those that are reachable.
+     */
+    private async syncReady(results: MemberResult[], command: GroupCommand, limiter: Limiter) {
+        await this.authenticate(results);
+
+        const ready = results.filter(r => r.status === 'pending');
+        if (command === 'fullSync') {
+            await this.runFullSync(ready, limiter);
+        } else {
+            await Promise.all(ready.map(r => this.runSafeSync(r, limiter)));
+        }
+    }
+
+    /**
+     * Connects to every server in turn before the parallel part,
+     * so all password and passphrase prompts come up one after another.
+     */
+    private async authenticate(results: MemberResult[]) {
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'WWSync: Connecting',
+            cancellable: true
+        }, async (progress, token) => {
+            for (const [i, result] of results.entries()) {
+                if (token.isCancellationRequested) {
+                    result.status = 'cancelled';
+                    continue;
+                }
+                progress.report({ message: `${result.member.serverAlias} (${i + 1}/${results.length})`, increment: 100 / results.length });
+                try {
+                    await checkConnection(result.member.server, result.env, token);
+                } catch (error: any) {
+                    result.status = token.isCancellationRequested ? 'cancelled' : 'failed';
+                    result.error = `Connection failed: ${error.message}`;
+                    this.outputChannel.appendLine(`✖ [${result.member.serverAlias}] ${result.error}`);
+                }
+            }
+        });
+    }
+
+    /**
+     * Runs one server's sync in its own progress notification and records it in the history.
+     * Other syncs of the same mapping finish first.
+     */
+    private async runMember(
+        result: MemberResult,
+        command: GroupCommand,
+        run: (channel: vscode.OutputChannel, progress: vscode.Progress<{ message?: string }>, token: vscode.CancellationToken) => Promise<SyncSummary | undefined>
+    ) {
+        const { member } = result;
+        const job: SyncJob = { command, serverAlias: member.serverAlias, server: member.server, mapping: member.mapping };
+        const channel = new PrefixedOutputChannel(this.outputChannel, member.serverAlias);
+
+        await this.jobQueue.run(job, async queueToken => vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `WWSync: ${SYNC_COMMAND_TITLES[command]} → ${member.serverAlias}`,
+            cancellable: true
+        }, async (progress, progressToken) => {
+            const cancellation = anyCancellation(progressToken, queueToken);
+            const token = cancellation.token;
+            try {
+                result.summary = await this.history.track(job, channel, c => run(c, progress, token), token);
+                result.status = result.summary ? 'success' : 'cancelled';
+            } catch (error: any) {
+                result.status = token.isCancellationRequested ? 'cancelled' : 'failed';
+                result.error = error.message;
+                progress.report({ message: `✖ ${error.message}` });
+            } finally {
+                cancellation.dispose();
+            }
+        }));
+
+        // Cancelled while waiting for another sync of the mapping
+        if (result.status === 'pending') {
+            result.status = 'cancelled';
+        }
+    }
+
+    private async runSafeSync(result: MemberResult, limiter: Limiter) {
+        const { server, mapping } = result.member;
+        const env = result.env;
+        await this.runMember(result, 'safeSync', (channel, progress, token) => {
+            progress.report({ message: 'Queued...' });
+            return limiter.run(async () => {
+                await runHooks(channel, server, mapping, 'pre', token, env, progress);
+                const summary = await runSafeSync(channel, server, mapping, token, env, undefined, progress);
+                await runHooks(channel, server, mapping, 'post', token, env, progress);
+                return summary;
+            });
+        });
+    }
+
+    /**
+     * Plans all servers, shows one combined review, then applies each server's part.
+     */
+    private async runFullSync(ready: MemberResult[], limiter: Limiter) {
+        const plans = ready.map(() => deferred<ItemizedChange[] | undefined>());
+
+        // Resolves with the deselected changes per server once every plan is in, or undefined if cancelled
+        const reviewed = (async (): Promise<ItemizedChange[][] | undefined> => {
+            const changes = await Promise.all(plans.map(p => p.promise));
+            const targets = ready
+                .map((r, i) => ({ index: i, result: r, changes: changes[i] }))
+                .filter(t => t.changes && t.changes.length > 0);
+
+            if (!targets.some(t => needsFullSyncReview(t.changes!))) {
+                return ready.map(() => []);
+            }
+
+            const skipped = await this.syncReview.review({
+                targets: targets.map(t => ({
+                    label: t.result.member.serverAlias,
+                    server: t.result.member.server,
+                    mapping: t.result.member.mapping,
+                    changes: t.changes!,
+                    env: t.result.env
+                }))
+            });
+            if (!skipped) {
+                return undefined;
+            }
+            const perServer: ItemizedChange[][] = ready.map(() => []);
+            targets.forEach((t, i) => perServer[t.index] = skipped[i]);
+            return perServer;
+        })();
+
+        await Promise.all(ready.map((result, i) => {
+            const { server, mapping } = result.member;
+            const env = result.env;
+
+            return this.runMember(result, 'fullSync', async (channel, progress, token) => {
+                let changes: ItemizedChange[] = [];
+                let planned = false;
+                try {
+                    progress.report({ message: 'Queued...' });
+                    changes = await limiter.run(async () => {
+                        progress.report({ message: 'Checking for changes...' });
+                        return planFullSync(channel, server, mapping, token, env);
+                    });
+                    plans[i].resolve(changes);
+                    planned = true;
+                } finally {
+                    // A failed plan must not hold up the review of the other servers
+                    if (!planned) {
+                        plans[i].resolve(undefined);
+                    }
+                }
+
+                progress.report({ message: 'Waiting for the review of all servers...' });
+                const skipped = await reviewed;
+                if (!skipped || token.isCancellationRequested) {
+                    channel.appendLine('Operation cancelled.');
+                    return undefined;
+                }
+
+                progress.report({ message: 'Queued...' });
+                return limiter.run(async () => {
+                    // Only now, so a cancelled review leaves the servers untouched
+                    await runHooks(channel, server, mapping, 'pre', token, env, progress);
+                    const summary = await applyFullSync(channel, server, mapping, changes, skipped[i], token, env, progress);
+                    await runHooks(channel, server, mapping, 'post', token, env, progress);
+                    return summary;
+                });
+            }).finally(() => {
+                // Cancelled before it started (while queued): don't let the review wait for its plan
+                plans[i].resolve(undefined);
+            });
+        }));
+    }
+
+    private async report(groupName: string, title: string, results: MemberResult[]) {
+        const count = (status: MemberResult['status']) => results.filter(r => r.status === status).length;
+        const succeeded = count('success');
+        const failed = count('failed');
+        const cancelled = count('cancelled') + count('pending');
+
+        this.outputChannel.appendLine('');
+        this.outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+        this.outputChannel.appendLine(`>>> Group '${groupName}' (${title}): ${succeeded} succeeded, ${failed} failed, ${cancelled} cancelled`);
+        for (const r of results) {
+            if (r.status === 'success') {
+                this.outputChannel.appendLine(`  ✔ ${r.member.serverAlias}: ${formatSummary(r.summary!)}`);
+            } else if (r.status === 'failed') {
+                this.outputChannel.appendLine(`  ✖ ${r.member.serverAlias}: ${r.error}`);
+            } else {
+                this.outputChannel.appendLine(`  - ${r.member.serverAlias}: cancelled`);
+            }
+        }
+        this.outputChannel.appendLine('═══════════════════════════════════════════════════════════');
+
+        const message = `WWSync: Group '${groupName}' ${title}: ${succeeded}/${results.length} server(s) succeeded`;
+        if (failed > 0) {
+            const names = results.filter(r => r.status === 'failed').map(r => r.member.serverAlias).join(', ');
+            const action = await vscode.window.showErrorMessage(`${message}, failed: ${names}.`, 'Show Output');
+            if (action === 'Show Output') {
+                this.outputChannel.show();
+            }
+        } else if (cancelled > 0) {
+            vscode.window.showWarningMessage(`${message}, ${cancelled} cancelled.`);
+        } else {
+            vscode.window.showInformationMessage(`${message}.`);
+        }
+    }
+}
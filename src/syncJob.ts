@@ -0,0 +1,26 @@
+import { Mapping } from './config';
+import { SshTarget } from './ssh';
+
+export type SyncCommand = 'safeSync' | 'fullSync' | 'pullSafe' | 'pullFull' | 'syncFiles' | 'pullFiles' | 'autoSync' | 'restoreSnapshot';
+
+export interface SyncJob {
+    command: SyncCommand;
+    serverAlias: string;
+    server: SshTarget;
+    mapping: Mapping;
+    /** Paths relative to the mapping root, only for 'syncFiles', 'pullFiles' and 'autoSync' */
+    files?: string[];
+    /** Snapshot to roll back to, only for 'restoreSnapshot' */
+    snapshot?: string;
+}
+
+export const SYNC_COMMAND_TITLES: { [key in SyncCommand]: string } = {
+    safeSync: 'Safe Sync',
+    fullSync: 'Full Sync',
+    pullSafe: 'Safe Pull',
+    pullFull: 'Full Pull',
+    syncFiles: 'Sync Files',
+    pullFiles: 'Pull Files',
+    autoSync: 'Auto Sync',
+    restoreSnapshot: 'Restore Snapshot'
+};
@@ -0,0 +1,252 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Mapping } from './config';
+import { ItemizedChange, ItemizedChangeKind, fetchRemoteFile } from './rsync';
+import { SshTarget, getRemoteLocation } from './ssh';
+
+export interface SyncReviewTarget {
+    /** Shown as a top-level node when several targets are reviewed together */
+    label: string;
+    server: SshTarget;
+    mapping: Mapping;
+    changes: ItemizedChange[];
+    env?: NodeJS.ProcessEnv;
+}
+
+export interface SyncReviewRequest {
+    targets: SyncReviewTarget[];
+    token?: vscode.CancellationToken;
+}
+
+interface TargetNode {
+    type: 'target';
+    target: number;
+}
+
+interface CategoryNode {
+    type: 'category';
+    target: number;
+    kind: ItemizedChangeKind;
+}
+
+interface ChangeNode {
+    type: 'change';
+    target: number;
+    change: ItemizedChange;
+    checked: boolean;
+}
+
+type ReviewNode = TargetNode | CategoryNode | ChangeNode;
+
+const CATEGORIES: { kind: ItemizedChangeKind; label: string; icon: string }[] = [
+    { kind: 'deleted', label: 'Deleted', icon: 'trash' },
+    { kind: 'modified', label: 'Modified', icon: 'diff-modified' },
+    { kind: 'new', label: 'New', icon: 'diff-added' },
+    { kind: 'permissions', label: 'Permissions only', icon: 'lock' }
+];
+
+/**
+ * "Full Sync Review" tree: lists the dry-run result of a Full Sync grouped by
+ * category and lets the user deselect individual entries before confirming.
+ * A group sync reviews all its servers at once, with one top-level node per server.
+ */
+export class SyncReviewView implements vscode.TreeDataProvider<ReviewNode> {
+    private treeView: vscode.TreeView<ReviewNode>;
+    private _onDidChangeTreeData = new vscode.EventEmitter<ReviewNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private request: SyncReviewRequest | undefined;
+    private nodes: ChangeNode[] = [];
+    private resolve: ((skipped: ItemizedChange[][] | undefined) => void) | undefined;
+    private tempDirs: string[] = [];
+
+    constructor(context: vscode.ExtensionContext) {
+        this.treeView = vscode.window.createTreeView('wwsync.syncReview', {
+            treeDataProvider: this,
+            showCollapseAll: true
+        });
+
+        context.subscriptions.push(
+            this.treeView,
+            this.treeView.onDidChangeCheckboxState(e => {
+                for (const [node, state] of e.items) {
+                    const checked = state === vscode.TreeItemCheckboxState.Checked;
+                    if (node.type === 'change') {
+                        node.checked = checked;
+                    } else {
+                        this.nodes
+                            .filter(n => n.target === node.target && (node.type === 'target' || n.change.kind === node.kind))
+                            .forEach(n => n.checked = checked);
+                    }
+                }
+            }),
+            vscode.commands.registerCommand('wwsync.review.apply', () => this.finish(true)),
+            vscode.commands.registerCommand('wwsync.review.cancel', () => this.finish(false)),
+            vscode.commands.registerCommand('wwsync.review.openChange', (node: ChangeNode) => this.openChange(node)),
+            { dispose: () => this.finish(false) }
+        );
+    }
+
+    /**
+     * Shows the changes and waits for the user.
+     * Resolves with the deselected changes per target, or undefined if the review was cancelled.
+     */
+    public async review(request: SyncReviewRequest): Promise<ItemizedChange[][] | undefined> {
+        // Only one review at a time - a new one replaces the previous
+        this.finish(false);
+
+        this.request = request;
+        this.nodes = request.targets.flatMap((t, target) =>
+            t.changes.map(change => ({ type: 'change' as const, target, change, checked: true })));
+
+        const deletions = this.nodes.filter(n => n.change.kind === 'deleted').length;
+        this.treeView.title = request.targets.length === 1
+            ? `Full Sync Review: ${request.targets[0].server.host ?? 'local folder'}`
+            : `Full Sync Review: ${request.targets.length} servers`;
+        this.treeView.message = deletions > 0
+            ? `${deletions} file(s) will be DELETED on the server${request.targets.length > 1 ? 's' : ''}. Uncheck entries to skip them, then apply.`
+            : 'Uncheck entries to skip them, then apply.';
+
+        const result = new Promise<ItemizedChange[][] | undefined>(resolve => this.resolve = resolve);
+        const cancellation = request.token?.onCancellationRequested(() => this.finish(false));
+
+        await vscode.commands.executeCommand('setContext', 'wwsync.reviewActive', true);
+        this._onDidChangeTreeData.fire(undefined);
+        await vscode.commands.executeCommand('wwsync.syncReview.focus');
+
+        try {
+            return await result;
+        } finally {
+            cancellation?.dispose();
+        }
+    }
+
+    private finish(apply: boolean) {
+        const resolve = this.resolve;
+        const skipped = (this.request?.targets ?? []).map((_, target) =>
+            this.nodes.filter(n => n.target === target && !n.checked).map(n => n.change));
+
+        this.resolve = undefined;
+        this.request = undefined;
+        this.nodes = [];
+        this.cleanupTempDirs();
+
+        vscode.commands.executeCommand('setContext', 'wwsync.reviewActive', false);
+        this._onDidChangeTreeData.fire(undefined);
+
+        resolve?.(apply ? skipped : undefined);
+    }
+
+    private getCategories(target: number): CategoryNode[] {
+        return CATEGORIES
+            .filter(c => this.nodes.some(n => n.target === target && n.change.kind === c.kind))
+            .map(c => ({ type: 'category', target, kind: c.kind }));
+    }
+
+    public getChildren(element?: ReviewNode): ReviewNode[] {
+        if (!element) {
+            const targets = this.request?.targets ?? [];
+            if (targets.length === 1) {
+                return this.getCategories(0);
+            }
+            return targets
+                .map((_, target): TargetNode => ({ type: 'target', target }))
+                .filter(t => this.nodes.some(n => n.target === t.target));
+        }
+        if (element.type === 'target') {
+            return this.getCategories(element.target);
+        }
+        if (element.type === 'category') {
+            return this.nodes.filter(n => n.target === element.target && n.change.kind === element.kind);
+        }
+        return [];
+    }
+
+    private checkboxState(nodes: ChangeNode[]): vscode.TreeItemCheckboxState {
+        return nodes.every(n => n.checked)
+            ? vscode.TreeItemCheckboxState.Checked
+            : vscode.TreeItemCheckboxState.Unchecked;
+    }
+
+    public getTreeItem(element: ReviewNode): vscode.TreeItem {
+        if (element.type === 'target') {
+            const target = this.request!.targets[element.target];
+            const children = this.nodes.filter(n => n.target === element.target);
+            const item = new vscode.TreeItem(target.label, vscode.TreeItemCollapsibleState.Expanded);
+            item.description = `${getRemoteLocation(target.server, target.mapping.remote)} (${children.length})`;
+            item.iconPath = new vscode.ThemeIcon('server');
+            item.checkboxState = this.checkboxState(children);
+            return item;
+        }
+
+        if (element.type === 'category') {
+            const category = CATEGORIES.find(c => c.kind === element.kind)!;
+            const children = this.nodes.filter(n => n.target === element.target && n.change.kind === element.kind);
+            const item = new vscode.TreeItem(`${category.label} (${children.length})`, vscode.TreeItemCollapsibleState.Expanded);
+            item.iconPath = new vscode.ThemeIcon(category.icon);
+            item.checkboxState = this.checkboxState(children);
+            return item;
+        }
+
+        const change = element.change;
+        const item = new vscode.TreeItem(change.path, vscode.TreeItemCollapsibleState.None);
+        if (this.request) {
+            item.resourceUri = vscode.Uri.file(path.join(this.request.targets[element.target].mapping.local, change.path));
+        }
+        item.description = change.flags;
+        item.iconPath = change.isDirectory ? vscode.ThemeIcon.Folder : vscode.ThemeIcon.File;
+        item.checkboxState = element.checked
+            ? vscode.TreeItemCheckboxState.Checked
+            : vscode.TreeItemCheckboxState.Unchecked;
+
+        if (!change.isDirectory && (change.kind === 'modified' || change.kind === 'new')) {
+            item.command = {
+                command: 'wwsync.review.openChange',
+                title: change.kind === 'modified' ? 'Compare with Remote' : 'Open File',
+                arguments: [element]
+            };
+        }
+        return item;
+    }
+
+    private async openChange(node: ChangeNode) {
+        const target = this.request?.targets[node.target];
+        if (!target) {
+            return;
+        }
+
+        const localUri = vscode.Uri.file(path.join(target.mapping.local, node.change.path));
+        if (node.change.kind !== 'modified') {
+            await vscode.commands.executeCommand('vscode.open', localUri);
+            return;
+        }
+
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wwsync-diff-'));
+        this.tempDirs.push(tempDir);
+        const remoteCopy = path.join(tempDir, path.basename(node.change.path));
+        const remotePath = path.posix.join(target.mapping.remote, node.change.path);
+
+        try {
+            await fetchRemoteFile(target.server, remotePath, remoteCopy, target.env);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to fetch remote file: ${error.message}`);
+            return;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            vscode.Uri.file(remoteCopy),
+            localUri,
+            `${node.change.path} (Remote ↔ Local)`
+        );
+    }
+
+    private cleanupTempDirs() {
+        for (const dir of this.tempDirs) {
+            try { fs.rmSync(dir, { recursive: true, force: true }); } catch {}
+        }
+        this.tempDirs = [];
+    }
+}
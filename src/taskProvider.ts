@@ -0,0 +1,277 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { loadConfig, resolveMapping, Mapping, ServerConfig, WWConfig } from './config';
+import { findServersForPath, findMappings, findMapping } from './serverSelector';
+import { RemoteCommands, SyncRunner } from './remoteCommands';
+import { SyncCommand, SYNC_COMMAND_TITLES } from './syncJob';
+import { RsyncError } from './rsync';
+import { HookError } from './hooks';
+import { getActiveWorkspaceFolder } from './drift';
+
+const TASK_TYPE = 'wwsync';
+const PROBLEM_MATCHER = '$wwsync-rsync';
+
+type TaskMode = 'safe' | 'full' | 'pull' | 'fullPull';
+
+const MODE_COMMANDS: { [key in TaskMode]: SyncCommand } = {
+    safe: 'safeSync',
+    full: 'fullSync',
+    pull: 'pullSafe',
+    fullPull: 'pullFull'
+};
+
+/**
+ * A "wwsync" task in tasks.json (see "taskDefinitions" in package.json).
+ */
+interface SyncTaskDefinition extends vscode.TaskDefinition {
+    server: string;
+    /** Local folder of the mapping, relative to the workspace folder (default: the workspace folder) */
+    mapping?: string;
+    mode?: TaskMode;
+    /** Name of a remote command of the mapping; runs it instead of a sync */
+    command?: string;
+}
+
+/**
+ * Output channel writing into a task's pseudoterminal, so syncs and commands can run there
+ * unchanged. Terminals need "\r\n" line breaks.
+ */
+class TerminalOutputChannel implements vscode.OutputChannel {
+    constructor(public readonly name: string, private write: (data: string) => void) { }
+
+    append(value: string): void {
+        this.write(value.replace(/\r?\n/g, '\r\n'));
+    }
+
+    appendLine(value: string): void {
+        this.append(value + '\n');
+    }
+
+    replace(value: string): void {
+        this.clear();
+        this.append(value);
+    }
+
+    clear(): void {
+        this.write('\x1b[2J\x1b[3J\x1b[H');
+    }
+
+    show(): void {
+        // The task terminal is shown by VS Code
+    }
+
+    hide(): void { }
+
+    dispose(): void { }
+}
+
+/**
+ * Pseudoterminal of a running task. Closing the terminal (or Ctrl+C) cancels the run;
+ * the task ends with the exit code the run returns.
+ */
+class SyncTaskTerminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    private closeEmitter = new vscode.EventEmitter<number>();
+    private cancellation = new vscode.CancellationTokenSource();
+
+    public readonly onDidWrite = this.writeEmitter.event;
+    public readonly onDidClose = this.closeEmitter.event;
+
+    constructor(
+        private name: string,
+        private run: (outputChannel: vscode.OutputChannel, token: vscode.CancellationToken) => Promise<number>
+    ) { }
+
+    open(): void {
+        const outputChannel = new TerminalOutputChannel(this.name, data => this.writeEmitter.fire(data));
+        this.run(outputChannel, this.cancellation.token)
+            .catch((error: any) => {
+                outputChannel.appendLine(`WWSync Error: ${error.message}`);
+                return 1;
+            })
+            .then(code => this.closeEmitter.fire(code));
+    }
+
+    close(): void {
+        this.cancellation.cancel();
+    }
+
+    handleInput(data: string): void {
+        if (data === '\x03') {
+            this.writeEmitter.fire('^C\r\n');
+            this.cancellation.cancel();
+        }
+    }
+}
+
+/**
+ * Provides "wwsync" tasks: Safe/Full Sync and Safe/Full Pull of a mapping, and its remote commands.
+ * They run in a pseudoterminal through the job queue like the commands, are recorded in the
+ * sync history and end with rsync's (or the failing hook's) exit code.
+ */
+export class SyncTaskProvider implements vscode.TaskProvider {
+    constructor(
+        context: vscode.ExtensionContext,
+        private remoteCommands: RemoteCommands,
+        private runSync: SyncRunner
+    ) {
+        context.subscriptions.push(vscode.tasks.registerTaskProvider(TASK_TYPE, this));
+    }
+
+    /**
+     * One task per mode and remote command for each mapping of each workspace folder.
+     */
+    provideTasks(): vscode.Task[] {
+        let config: WWConfig;
+        try {
+            config = loadConfig();
+        } catch (error) {
+            // Reported by the config diagnostics
+            return [];
+        }
+
+        const tasks: vscode.Task[] = [];
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            for (const serverAlias of findServersForPath(config, folder.uri.fsPath)) {
+                const mappings = findMappings(config.servers[serverAlias], folder.uri.fsPath);
+                mappings.forEach((mapping, index) => {
+                    // Only the innermost mapping is found without naming it
+                    const local = index > 0 ? path.relative(folder.uri.fsPath, mapping.local) : '';
+                    const target = mappings.length > 1 ? `${serverAlias}: ${path.basename(mapping.local)}` : serverAlias;
+                    const base = { type: TASK_TYPE, server: serverAlias, ...(local ? { mapping: local } : {}) };
+
+                    for (const mode of Object.keys(MODE_COMMANDS) as TaskMode[]) {
+                        tasks.push(this.createTask({ ...base, mode }, folder, `${SYNC_COMMAND_TITLES[MODE_COMMANDS[mode]]} (${target})`));
+                    }
+                    for (const command of mapping.commands ?? []) {
+                        tasks.push(this.createTask({ ...base, command: command.name }, folder, `${command.name} (${target})`));
+                    }
+                });
+            }
+        }
+        return tasks;
+    }
+
+    /**
+     * Adds the execution to a "wwsync" task from tasks.json.
+     */
+    resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as SyncTaskDefinition;
+        if (!definition.server) {
+            return undefined;
+        }
+        return this.createTask(definition, task.scope ?? vscode.TaskScope.Workspace, task.name, task.problemMatchers);
+    }
+
+    private createTask(
+        definition: SyncTaskDefinition,
+        scope: vscode.WorkspaceFolder | vscode.TaskScope,
+        name: string,
+        problemMatchers: string[] = [PROBLEM_MATCHER]
+    ): vscode.Task {
+        const folder = typeof scope === 'object' ? scope.uri.fsPath : undefined;
+        // Variables in tasks.json are substituted in the definition passed here
+        const execution = new vscode.CustomExecution(async resolved =>
+            new SyncTaskTerminal(name, (outputChannel, token) =>
+                this.execute(resolved as SyncTaskDefinition, folder, outputChannel, token)));
+        return new vscode.Task(definition, scope, name, TASK_TYPE, execution, problemMatchers);
+    }
+
+    private async execute(
+        definition: SyncTaskDefinition,
+        folder: string | undefined,
+        outputChannel: vscode.OutputChannel,
+        token: vscode.CancellationToken
+    ): Promise<number> {
+        const server: ServerConfig | undefined = loadConfig().servers[definition.server];
+        if (!server) {
+            throw new Error(`Server '${definition.server}' not found in the config.`);
+        }
+
+        const root = folder ?? getActiveWorkspaceFolder();
+        const localPath = definition.mapping
+            ? path.resolve(root ?? '', definition.mapping)
+            : root;
+        const found = localPath ? findMapping(server, localPath) : undefined;
+        if (!found) {
+            throw new Error(`No mapping of '${definition.server}' contains ${localPath ?? 'the workspace folder'}.`);
+        }
+        const mapping = resolveMapping(server, found);
+
+        if (definition.command) {
+            return this.executeCommand(definition, server, mapping, outputChannel, token);
+        }
+
+        const mode = definition.mode ?? 'safe';
+        const command = MODE_COMMANDS[mode];
+        if (!command) {
+            throw new Error(`Unknown mode '${mode}'. Use 'safe', 'full', 'pull' or 'fullPull'.`);
+        }
+        return this.executeSync(command, definition.server, server, mapping, outputChannel, token);
+    }
+
+    /**
+     * Runs a sync; 0 if it completed, otherwise the exit code of rsync or the failing hook (1 if there is none).
+     */
+    private async executeSync(
+        command: SyncCommand,
+        serverAlias: string,
+        server: ServerConfig,
+        mapping: Mapping,
+        outputChannel: vscode.OutputChannel,
+        token: vscode.CancellationToken
+    ): Promise<number> {
+        try {
+            const summary = await this.runSync({ command, serverAlias, server, mapping }, outputChannel, token);
+            if (!summary) {
+                outputChannel.appendLine(`✖ ${SYNC_COMMAND_TITLES[command]} did not run (cancelled).`);
+                return 1;
+            }
+            return 0;
+        } catch (error: any) {
+            // rsync failures and cancellations are already written by the sync itself
+            if (!(error instanceof RsyncError) && !token.isCancellationRequested) {
+                outputChannel.appendLine(`WWSync Error: ${error.message}`);
+            }
+            if ((error instanceof RsyncError || error instanceof HookError) && error.exitCode) {
+                return error.exitCode;
+            }
+            return 1;
+        }
+    }
+
+    /**
+     * Runs a named remote command (after its sync, if it has one); ends with the command's exit code.
+     */
+    private async executeCommand(
+        definition: SyncTaskDefinition,
+        server: ServerConfig,
+        mapping: Mapping,
+        outputChannel: vscode.OutputChannel,
+        token: vscode.CancellationToken
+    ): Promise<number> {
+        const command = mapping.commands?.find(c => c.name === definition.command);
+        if (!command) {
+            throw new Error(`Command '${definition.command}' is not defined for ${mapping.local} on ${definition.server}.`);
+        }
+
+        if (command.sync) {
+            const code = await this.executeSync(command.sync === 'full' ? 'fullSync' : 'safeSync',
+                definition.server, server, mapping, outputChannel, token);
+            if (code !== 0) {
+                outputChannel.appendLine(`'${command.name}' skipped, the sync did not complete.`);
+                return code;
+            }
+        }
+
+        const code = await this.remoteCommands.execute(definition.server, server, mapping, command, outputChannel, token);
+        if (token.isCancellationRequested) {
+            outputChannel.appendLine(`✖ '${command.name}' cancelled by user.`);
+        } else if (code === 0) {
+            outputChannel.appendLine(`✔ '${command.name}' completed.`);
+        } else {
+            outputChannel.appendLine(`✖ '${command.name}' failed with code ${code}.`);
+        }
+        return code ?? 1;
+    }
+}
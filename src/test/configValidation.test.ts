@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { validateConfigText } from '../configValidation';
+
+function configWithSshOptions(options: string[]): string {
+    return JSON.stringify({ servers: { web: { host: 'example.com', sshOptions: options, mappings: [] } } });
+}
+
+suite('validateConfigText', () => {
+    test('rejects ssh options running local commands in a project config', () => {
+        const { config, problems } = validateConfigText(configWithSshOptions(['ProxyCommand=nc %h %p', 'permitlocalcommand=yes']), true);
+
+        assert.strictEqual(config, undefined);
+        assert.deepStrictEqual(problems.map(p => p.message), [
+            `'ProxyCommand' runs local commands and is only allowed in ~/.wwsync.`,
+            `'permitlocalcommand' runs local commands and is only allowed in ~/.wwsync.`
+        ]);
+    });
+
+    test('accepts them in ~/.wwsync', () => {
+        const { config, problems } = validateConfigText(configWithSshOptions(['ProxyCommand=nc %h %p']), false);
+
+        assert.ok(config);
+        assert.deepStrictEqual(problems, []);
+    });
+
+    test('accepts other ssh options in a project config', () => {
+        assert.ok(validateConfigText(configWithSshOptions(['StrictHostKeyChecking=accept-new']), true).config);
+    });
+
+    test('rejects a host, user or jump host ssh would read as an option', () => {
+        const text = JSON.stringify({ servers: { web: { host: '-oProxyCommand=touch /tmp/x', user: '-v', proxyJump: '-J', mappings: [] } } });
+
+        const { config, problems } = validateConfigText(text, true);
+
+        assert.strictEqual(config, undefined);
+        assert.deepStrictEqual(problems.map(p => p.message), [
+            `'host' must not start with "-".`,
+            `'user' must not start with "-".`,
+            `'proxyJump' must not start with "-".`
+        ]);
+    });
+});
+
+suite('validateConfigText (project mappings)', () => {
+    function configWithLocal(local: string): string {
+        return JSON.stringify({ servers: { web: { host: 'example.com', mappings: [{ local, remote: '/var/www' }] } } });
+    }
+
+    test('rejects local folders outside the workspace folder', () => {
+        for (const local of ['/etc', '../..', 'src/../../other']) {
+            const { config, problems } = validateConfigText(configWithLocal(local), true);
+
+            assert.strictEqual(config, undefined);
+            assert.deepStrictEqual(problems.map(p => p.message), [`'local' must be a folder inside the workspace folder, got "${local}".`]);
+        }
+    });
+
+    test('accepts folders inside it, and any folder in ~/.wwsync', () => {
+        assert.ok(validateConfigText(configWithLocal('./web/..'), true).config);
+        assert.ok(validateConfigText(configWithLocal('..foo'), true).config);
+        assert.ok(validateConfigText(configWithLocal('/home/me/site'), false).config);
+    });
+});
+
+suite('validateConfigText (project servers without host)', () => {
+    const text = JSON.stringify({ servers: { staging: { mappings: [] } } });
+
+    test('warns when ~/.wwsync does not define the server', () => {
+        const { config, problems } = validateConfigText(text, true, ['production']);
+
+        assert.ok(config);
+        assert.deepStrictEqual(problems.map(p => [p.severity, p.message]), [
+            ['warning', `Server 'staging' has no 'host' and is not defined in ~/.wwsync, so it is ignored.`]
+        ]);
+    });
+
+    test('accepts it when ~/.wwsync defines the server', () => {
+        assert.deepStrictEqual(validateConfigText(text, true, ['staging']).problems, []);
+    });
+});
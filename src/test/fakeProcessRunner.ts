@@ -0,0 +1,68 @@
+import * as cp from 'child_process';
+import { EventEmitter } from 'events';
+import { ProcessRunner } from '../processes';
+
+export interface RecordedProcess {
+    command: string;
+    args: string[];
+    options: cp.SpawnOptions;
+    /** Everything written to the process's standard input */
+    input: string;
+    killed: boolean;
+}
+
+export interface FakeResult {
+    stdout?: string;
+    stderr?: string;
+    code?: number;
+}
+
+/**
+ * Records every spawned process instead of running it. Each process prints the next queued
+ * result and exits with its code (0 and no output if nothing is queued).
+ */
+export class FakeProcessRunner implements ProcessRunner {
+    public readonly calls: RecordedProcess[] = [];
+    private results: FakeResult[] = [];
+
+    respond(...results: FakeResult[]) {
+        this.results.push(...results);
+    }
+
+    spawn(command: string, args: string[], options: cp.SpawnOptions): cp.ChildProcess {
+        const record: RecordedProcess = { command, args, options, input: '', killed: false };
+        this.calls.push(record);
+        const result = this.results.shift() ?? {};
+
+        const proc = new EventEmitter() as cp.ChildProcess;
+        const stdout = new EventEmitter();
+        const stderr = new EventEmitter();
+        const stdin = Object.assign(new EventEmitter(), {
+            write: (data: string) => { record.input += data; return true; },
+            end: (data?: string) => { record.input += data ?? ''; }
+        });
+        Object.assign(proc, { stdout, stderr, stdin, pid: this.calls.length, record });
+
+        setImmediate(() => {
+            if (record.killed) {
+                return;
+            }
+            if (result.stdout) {
+                stdout.emit('data', Buffer.from(result.stdout));
+            }
+            if (result.stderr) {
+                stderr.emit('data', Buffer.from(result.stderr));
+            }
+            proc.emit('close', result.code ?? 0);
+        });
+        return proc;
+    }
+
+    kill(proc: cp.ChildProcess) {
+        const record: RecordedProcess = (proc as any).record;
+        if (!record.killed) {
+            record.killed = true;
+            setImmediate(() => proc.emit('close', null));
+        }
+    }
+}
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { anyCancellation } from '../jobQueue';
+
+suite('jobQueue', () => {
+    test('cancels the combined token with any of its tokens', () => {
+        const first = new vscode.CancellationTokenSource();
+        const second = new vscode.CancellationTokenSource();
+        const combined = anyCancellation(first.token, second.token);
+
+        second.cancel();
+
+        assert.strictEqual(combined.token.isCancellationRequested, true);
+    });
+
+    test('is cancelled at once when a token already is', () => {
+        const source = new vscode.CancellationTokenSource();
+        source.cancel();
+
+        assert.strictEqual(anyCancellation(source.token).token.isCancellationRequested, true);
+    });
+
+    test('stops listening to its tokens once disposed', () => {
+        const source = new vscode.CancellationTokenSource();
+        const combined = anyCancellation(source.token);
+
+        combined.dispose();
+        source.cancel();
+
+        assert.strictEqual(combined.token.isCancellationRequested, false);
+    });
+});
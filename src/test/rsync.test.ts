@@ -0,0 +1,255 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { Mapping, ServerConfig } from '../config';
+import { setProcessRunner } from '../processes';
+import { parseItemizedChanges, parseDeletedFiles, runSafeSync, runFullSync, applyFullSync, RsyncError } from '../rsync';
+import { FakeProcessRunner } from './fakeProcessRunner';
+import { vscodeMock } from './setup';
+
+const server: ServerConfig = { host: 'example.com', user: 'deploy', port: 2222, mappings: [] };
+const localServer: ServerConfig = { type: 'local', mappings: [] };
+const mapping: Mapping = { local: '/home/me/my app', remote: '/var/www/my app', excludes: ['node_modules'] };
+
+const STATS = [
+    'sending incremental file list',
+    'index.html',
+    '',
+    'Number of files: 3 (reg: 2, dir: 1)',
+    'Number of regular files transferred: 1',
+    'Number of deleted files: 0',
+    'Total file size: 1,024 bytes',
+    'Total bytes sent: 512',
+    'Total bytes received: 64',
+    'sent 512 bytes  received 64 bytes  1,152.00 bytes/sec',
+    'total size is 1,024  speedup is 1.78',
+    ''
+].join('\n');
+
+/**
+ * Output channel keeping everything written to it.
+ */
+function createChannel(): vscode.OutputChannel & { text: string } {
+    const channel = {
+        text: '',
+        name: 'test',
+        append(value: string) { channel.text += value; },
+        appendLine(value: string) { channel.text += value + '\n'; },
+        replace(value: string) { channel.text = value; },
+        clear() { channel.text = ''; },
+        show() { },
+        hide() { },
+        dispose() { }
+    };
+    return channel;
+}
+
+suite('parseItemizedChanges', () => {
+    test('classifies new, modified, deleted and permission-only entries', () => {
+        const output = [
+            'sending incremental file list',
+            '>f+++++++++ src/new.ts',
+            'cd+++++++++ src/lib/',
+            '>f.st...... src/changed.ts',
+            '.f...p..... bin/run.sh',
+            '.d..t...... src/',
+            '*deleting   old/removed.txt',
+            '*deleting   old/',
+            ''
+        ].join('\n');
+
+        assert.deepStrictEqual(parseItemizedChanges(output).map(c => [c.kind, c.path, c.isDirectory]), [
+            ['new', 'src/new.ts', false],
+            ['new', 'src/lib/', true],
+            ['modified', 'src/changed.ts', false],
+            ['permissions', 'bin/run.sh', false],
+            ['deleted', 'old/removed.txt', false],
+            ['deleted', 'old/', true]
+        ]);
+    });
+
+    test('accepts the shorter flags of older rsync versions and paths with spaces', () => {
+        const changes = parseItemizedChanges('>f.st.... docs/read me.md\n');
+        assert.deepStrictEqual(changes, [{ path: 'docs/read me.md', kind: 'modified', isDirectory: false, flags: '>f.st....' }]);
+    });
+});
+
+suite('parseDeletedFiles', () => {
+    test('returns only deleted paths, from itemized and plain -v output', () => {
+        const output = '>f+++++++++ a.txt\n*deleting   b.txt\ndeleting c/d.txt\n';
+        assert.deepStrictEqual(parseDeletedFiles(output), ['b.txt', 'c/d.txt']);
+    });
+
+    test('returns nothing when no file is deleted', () => {
+        assert.deepStrictEqual(parseDeletedFiles('sending incremental file list\n>f.st...... a.txt\n'), []);
+    });
+});
+
+suite('Safe Sync', () => {
+    let runner: FakeProcessRunner;
+
+    setup(() => {
+        runner = new FakeProcessRunner();
+        setProcessRunner(runner);
+    });
+
+    teardown(() => setProcessRunner());
+
+    test('uploads over ssh without --delete and returns the transfer summary', async () => {
+        runner.respond({ stdout: STATS });
+        const channel = createChannel();
+
+        const summary = await runSafeSync(channel, server, mapping);
+
+        assert.strictEqual(runner.calls.length, 1);
+        const { command, args, options } = runner.calls[0];
+        assert.strictEqual(command, 'rsync');
+        assert.strictEqual(options.shell, undefined);
+        assert.deepStrictEqual(args, [
+            '--info=progress2', '--stats', '-avzP',
+            '--protect-args', '-e', 'ssh -p 2222',
+            '--filter=dir-merge,e .wwsyncignore', '--exclude', 'node_modules',
+            '/home/me/my app/', 'deploy@example.com:/var/www/my app'
+        ]);
+        assert.strictEqual(summary.filesTransferred, 1);
+        assert.strictEqual(summary.bytesSent, 512);
+        assert.match(channel.text, /✔ Safe sync completed successfully\./);
+    });
+
+    test('uploads only the selected paths, listed on stdin', async () => {
+        runner.respond({ stdout: STATS });
+
+        const summary = await runSafeSync(createChannel(), server, mapping, undefined, undefined, ['index.html', 'assets/my logo.png']);
+
+        const { args, input } = runner.calls[0];
+        assert.deepStrictEqual(args.slice(-4), ['--files-from=-', '--recursive', '/home/me/my app/', 'deploy@example.com:/var/www/my app']);
+        assert.strictEqual(input, 'index.html\nassets/my logo.png\n');
+        // The recorded command pipes the list in, so it can be run again as it is
+        assert.match(summary.commandLine!, /^printf '%s\\n' index\.html 'assets\/my logo\.png' \| rsync .* --files-from=- --recursive /);
+    });
+
+    test('copies into the folder of a local target without a remote shell', async () => {
+        await runSafeSync(createChannel(), localServer, { ...mapping, remote: '/mnt/nas/my app' });
+
+        const { args } = runner.calls[0];
+        assert.ok(!args.includes('-e') && !args.includes('--protect-args'));
+        assert.deepStrictEqual(args.slice(-2), ['/home/me/my app/', '/mnt/nas/my app']);
+    });
+
+    test('rejects with rsync\'s exit code', async () => {
+        runner.respond({ stderr: 'rsync: connection unexpectedly closed\n', code: 12 });
+        const channel = createChannel();
+
+        await assert.rejects(runSafeSync(channel, server, mapping), (error: any) => {
+            assert.ok(error instanceof RsyncError);
+            assert.strictEqual(error.exitCode, 12);
+            assert.match(error.commandLine, /^rsync .* 'deploy@example\.com:\/var\/www\/my app'$/);
+            return true;
+        });
+        assert.match(channel.text, /connection unexpectedly closed/);
+    });
+});
+
+suite('Full Sync', () => {
+    let runner: FakeProcessRunner;
+    let warnings: string[];
+    const showWarningMessage = vscodeMock.window.showWarningMessage;
+
+    setup(() => {
+        runner = new FakeProcessRunner();
+        setProcessRunner(runner);
+        warnings = [];
+    });
+
+    teardown(() => {
+        setProcessRunner();
+        vscodeMock.window.showWarningMessage = showWarningMessage;
+    });
+
+    function answerDeletion(answer: string | undefined) {
+        vscodeMock.window.showWarningMessage = async (message: string) => {
+            warnings.push(message);
+            return answer;
+        };
+    }
+
+    test('plans with an itemized dry run, then mirrors with --delete', async () => {
+        runner.respond({ stdout: '>f.st...... index.html\n' }, { stdout: STATS });
+        answerDeletion(undefined);
+
+        const summary = await runFullSync(createChannel(), server, mapping);
+
+        assert.strictEqual(runner.calls.length, 2);
+        const [dryRun, sync] = runner.calls.map(c => c.args);
+        assert.ok(dryRun.includes('--delete') && dryRun.includes('--dry-run') && dryRun.includes('--itemize-changes'));
+        assert.ok(sync.includes('--delete') && !sync.includes('--dry-run'));
+        assert.deepStrictEqual(sync.slice(-2), ['/home/me/my app/', 'deploy@example.com:/var/www/my app']);
+        // Nothing is deleted, so there is nothing to confirm
+        assert.deepStrictEqual(warnings, []);
+        assert.strictEqual(summary?.filesTransferred, 1);
+    });
+
+    test('asks before deleting and stops when the user declines', async () => {
+        runner.respond({ stdout: '*deleting   old.txt\n*deleting   cache/\n>f+++++++++ new.txt\n' });
+        answerDeletion(undefined);
+        const channel = createChannel();
+
+        const summary = await runFullSync(channel, server, mapping);
+
+        assert.strictEqual(summary, undefined);
+        assert.strictEqual(runner.calls.length, 1);
+        assert.strictEqual(warnings.length, 1);
+        assert.match(warnings[0], /^2 file\(s\) will be DELETED on the server/);
+        assert.match(channel.text, / {2}- old\.txt\n {2}- cache\/\n/);
+        assert.match(channel.text, /Operation cancelled\./);
+    });
+
+    test('deletes after the user confirms', async () => {
+        runner.respond({ stdout: '*deleting   old.txt\n' }, { stdout: STATS });
+        answerDeletion('Yes, delete');
+
+        const summary = await runFullSync(createChannel(), server, mapping);
+
+        assert.strictEqual(warnings.length, 1);
+        assert.strictEqual(runner.calls.length, 2);
+        assert.ok(runner.calls[1].args.includes('--delete'));
+        assert.ok(summary);
+    });
+
+    test('runs the pre-apply step only after the deletion is confirmed', async () => {
+        runner.respond({ stdout: '*deleting   old.txt\n' }, { stdout: '*deleting   old.txt\n' });
+        const steps: string[] = [];
+        const beforeApply = async () => { steps.push(`before apply, ${runner.calls.length} process(es) run`); };
+
+        answerDeletion(undefined);
+        await runFullSync(createChannel(), server, mapping, undefined, undefined, undefined, undefined, beforeApply);
+        assert.deepStrictEqual(steps, []);
+
+        answerDeletion('Yes, delete');
+        await runFullSync(createChannel(), server, mapping, undefined, undefined, undefined, undefined, beforeApply);
+        assert.deepStrictEqual(steps, ['before apply, 2 process(es) run']);
+        assert.strictEqual(runner.calls.length, 3);
+    });
+
+    test('passes changes deselected in the review as filter arguments', async () => {
+        const changes = parseItemizedChanges('*deleting   keep me.txt\n>f+++++++++ draft*.md\n>f.st...... index.html\n');
+
+        const summary = await applyFullSync(createChannel(), server, mapping, changes, changes.slice(0, 2));
+
+        assert.deepStrictEqual(runner.calls[0].args.slice(0, 4), [
+            '--info=progress2', '--stats', '--filter=P /keep me.txt', '--filter=- /draft\\*.md'
+        ]);
+        assert.strictEqual(runner.calls[0].input, '');
+        assert.ok(!summary.commandLine!.includes(os.tmpdir()));
+    });
+
+    test('does not start when already cancelled', async () => {
+        const source = new vscode.CancellationTokenSource();
+        source.cancel();
+
+        const summary = await runFullSync(createChannel(), server, mapping, source.token);
+
+        assert.strictEqual(summary, undefined);
+        assert.strictEqual(runner.calls.length, 0);
+    });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServerConfig } from '../config';
+import { findMapping, getCommonFolder, getRelativePath } from '../serverSelector';
+
+suite('serverSelector', () => {
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'wwsync-test-'));
+        fs.mkdirSync(path.join(root, 'api', 'src'), { recursive: true });
+        fs.mkdirSync(path.join(root, 'web'));
+        fs.writeFileSync(path.join(root, 'api', 'src', 'index.ts'), '');
+        fs.writeFileSync(path.join(root, 'api', 'package.json'), '');
+    });
+
+    teardown(() => fs.rmSync(root, { recursive: true, force: true }));
+
+    test('getCommonFolder uses the folder of a file and a selected folder itself', () => {
+        assert.strictEqual(getCommonFolder([path.join(root, 'api', 'src', 'index.ts')]), path.join(root, 'api', 'src'));
+        assert.strictEqual(getCommonFolder([path.join(root, 'api', 'src')]), path.join(root, 'api', 'src'));
+    });
+
+    test('getCommonFolder finds the innermost folder containing the whole selection', () => {
+        const api = path.join(root, 'api');
+        assert.strictEqual(getCommonFolder([path.join(api, 'src', 'index.ts'), path.join(api, 'package.json')]), api);
+        assert.strictEqual(getCommonFolder([path.join(api, 'src'), path.join(root, 'web')]), root);
+    });
+
+    test('a selection inside a mapped subfolder resolves to that mapping', () => {
+        const server: ServerConfig = {
+            host: 'example.com',
+            mappings: [
+                { local: path.join(root, 'web'), remote: '/srv/web', excludes: [] },
+                { local: path.join(root, 'api'), remote: '/srv/api', excludes: [] }
+            ]
+        };
+        const file = path.join(root, 'api', 'src', 'index.ts');
+
+        assert.strictEqual(findMapping(server, getCommonFolder([file]))?.remote, '/srv/api');
+        assert.strictEqual(findMapping(server, root), undefined);
+        assert.strictEqual(getRelativePath(path.join(root, 'api'), file), 'src/index.ts');
+    });
+});
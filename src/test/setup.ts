@@ -0,0 +1,61 @@
+import Module = require('module');
+
+/**
+ * The parts of the `vscode` API the tested modules use. The real module only exists inside
+ * VS Code, so tests run against this one; a test replaces the functions it needs to control.
+ */
+class EventEmitter<T> {
+    private listeners: ((e: T) => void)[] = [];
+
+    public readonly event = (listener: (e: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => this.listeners = this.listeners.filter(l => l !== listener) };
+    };
+
+    fire(e: T) {
+        [...this.listeners].forEach(l => l(e));
+    }
+
+    dispose() {
+        this.listeners = [];
+    }
+}
+
+class CancellationTokenSource {
+    private emitter = new EventEmitter<void>();
+    public readonly token = {
+        isCancellationRequested: false,
+        onCancellationRequested: this.emitter.event
+    };
+
+    cancel() {
+        if (!this.token.isCancellationRequested) {
+            this.token.isCancellationRequested = true;
+            this.emitter.fire();
+        }
+    }
+
+    dispose() {
+        this.emitter.dispose();
+    }
+}
+
+export const vscodeMock = {
+    EventEmitter,
+    CancellationTokenSource,
+    window: {
+        showWarningMessage: async (..._args: any[]): Promise<string | undefined> => undefined,
+        showInformationMessage: async (..._args: any[]): Promise<string | undefined> => undefined,
+        showErrorMessage: async (..._args: any[]): Promise<string | undefined> => undefined,
+        setStatusBarMessage: (..._args: any[]) => ({ dispose() { } })
+    },
+    workspace: {
+        workspaceFolders: undefined as { uri: { fsPath: string } }[] | undefined,
+        getConfiguration: () => ({ get: <T>(_key: string, defaultValue: T) => defaultValue })
+    }
+};
+
+const load = (Module as any)._load;
+(Module as any)._load = function (request: string, ...args: any[]) {
+    return request === 'vscode' ? vscodeMock : load.call(this, request, ...args);
+};
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { Mapping } from '../config';
+import { setProcessRunner } from '../processes';
+import { createSnapshotName, getSnapshotExclude, restoreSnapshot, toBatches } from '../snapshots';
+import { FakeProcessRunner } from './fakeProcessRunner';
+
+function withSnapshots(remote: string, dir?: string): Mapping {
+    return { local: '/home/me/site', remote, excludes: [], snapshots: dir ? { dir } : true };
+}
+
+suite('getSnapshotExclude', () => {
+    test('excludes a snapshot folder inside the remote folder', () => {
+        assert.strictEqual(getSnapshotExclude(withSnapshots('/var/www')), '/.wwsync-snapshots/');
+        assert.strictEqual(getSnapshotExclude(withSnapshots('/var/www', 'backup/snaps/')), '/backup/snaps/');
+        assert.strictEqual(getSnapshotExclude(withSnapshots('/var/www', '/var/www/.snaps')), '/.snaps/');
+        assert.strictEqual(getSnapshotExclude(withSnapshots('~/site', '~/site/.snaps')), '/.snaps/');
+        assert.strictEqual(getSnapshotExclude(withSnapshots('site', '~/site/.snaps')), '/.snaps/');
+    });
+
+    test('leaves folders outside the remote folder alone', () => {
+        assert.strictEqual(getSnapshotExclude(withSnapshots('/var/www', '../snaps')), undefined);
+        assert.strictEqual(getSnapshotExclude(withSnapshots('/var/www', '/var/snaps')), undefined);
+        assert.strictEqual(getSnapshotExclude(withSnapshots('/var/www', '/var/www-snaps')), undefined);
+        assert.strictEqual(getSnapshotExclude(withSnapshots('~/site', '/var/snaps')), undefined);
+        assert.strictEqual(getSnapshotExclude({ local: '/home/me/site', remote: '/var/www', excludes: [] }), undefined);
+    });
+});
+
+suite('createSnapshotName', () => {
+    test('names snapshots to the millisecond, so syncs in the same second get their own folder', () => {
+        assert.strictEqual(createSnapshotName(new Date(Date.UTC(2026, 9, 19, 8, 30, 5, 123))), '2026-10-19T08-30-05.123Z');
+    });
+});
+
+suite('restoreSnapshot', () => {
+    let runner: FakeProcessRunner;
+
+    setup(() => {
+        runner = new FakeProcessRunner();
+        setProcessRunner(runner);
+    });
+
+    teardown(() => setProcessRunner());
+
+    test('splits long lists of files to remove into several commands', async () => {
+        const created = Array.from({ length: 5000 }, (_, i) => `uploads/2026/10/generated-file-${i}.jpg`);
+        const manifest = { createdAt: 0, local: '/home/me/site', created, modified: 0, deleted: 0 };
+        runner.respond({ stdout: `2026-10-19T08-30-05.123Z\t0\t${JSON.stringify(manifest)}\n` });
+        const channel = { appendLine() { }, append() { } } as any;
+
+        const summary = await restoreSnapshot(channel, { host: 'example.com' }, withSnapshots('/var/www'), '2026-10-19T08-30-05.123Z');
+
+        const removals = runner.calls[1].input.split('\n').filter(line => line.startsWith('rm -f -- '));
+        assert.ok(removals.length > 1);
+        assert.ok(removals.every(line => line.length < 33 * 1024));
+        assert.strictEqual(removals.map(line => line.split(' ').length - 3).reduce((a, b) => a + b), 5000);
+        assert.strictEqual(summary.filesDeleted, 5000);
+    });
+
+    test('keeps every argument when batching', () => {
+        assert.deepStrictEqual(toBatches([]), []);
+        assert.deepStrictEqual(toBatches(['a', 'b']), [['a', 'b']]);
+    });
+});
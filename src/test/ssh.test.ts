@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { ServerConfig } from '../config';
+import { setProcessRunner, ASKPASS_TOKEN_VAR } from '../processes';
+import { execRemote, buildSshCommand, getRemoteLocation } from '../ssh';
+import { FakeProcessRunner } from './fakeProcessRunner';
+
+suite('ssh', () => {
+    let runner: FakeProcessRunner;
+
+    setup(() => {
+        runner = new FakeProcessRunner();
+        setProcessRunner(runner);
+    });
+
+    teardown(() => setProcessRunner());
+
+    test('runs remote commands with the server\'s connection options', async () => {
+        const server: ServerConfig = {
+            host: 'example.com',
+            user: 'deploy',
+            port: 2222,
+            proxyJump: 'bastion',
+            sshOptions: ['StrictHostKeyChecking=accept-new'],
+            mappings: []
+        };
+        runner.respond({ stdout: 'ok\n' });
+
+        const output = await execRemote(server, 'cat > file', undefined, undefined, undefined, 'content');
+
+        assert.strictEqual(output.toString(), 'ok\n');
+        const { command, args, input } = runner.calls[0];
+        assert.strictEqual(command, 'ssh');
+        assert.deepStrictEqual(args, [
+            '-p', '2222', '-J', 'bastion', '-o', 'StrictHostKeyChecking=accept-new',
+            '--', 'deploy@example.com', 'cat > file'
+        ]);
+        assert.strictEqual(input, 'content');
+    });
+
+    test('runs commands of a local target in a local shell', async () => {
+        await execRemote({ type: 'local' }, 'ls');
+
+        assert.deepStrictEqual([runner.calls[0].command, runner.calls[0].args], ['sh', ['-c', 'ls']]);
+    });
+
+    test('rejects with the error output', async () => {
+        runner.respond({ stderr: 'Permission denied (publickey).\n', code: 255 });
+
+        await assert.rejects(execRemote({ host: 'example.com' }, 'exit'), /Permission denied \(publickey\)\./);
+    });
+
+    test('gives every ssh process its own AskPass token', async () => {
+        const env = { SSH_ASKPASS: '/tmp/askpass.sh', [ASKPASS_TOKEN_VAR]: 'manager' };
+
+        await execRemote({ host: 'example.com' }, 'exit', env);
+        await execRemote({ host: 'example.com' }, 'exit', env);
+        await execRemote({ host: 'example.com' }, 'exit');
+
+        const tokens = runner.calls.map(call => call.options.env?.[ASKPASS_TOKEN_VAR]);
+        assert.ok(tokens[0] && tokens[1] && tokens[0] !== tokens[1] && tokens[0] !== 'manager');
+        assert.strictEqual(tokens[2], undefined);
+    });
+
+    test('builds the -e command and remote locations for rsync', () => {
+        assert.strictEqual(buildSshCommand({ host: 'h', identityFile: '/keys/my key' }), `ssh -i '/keys/my key'`);
+        assert.strictEqual(buildSshCommand({ host: 'h' }), undefined);
+        assert.strictEqual(buildSshCommand({ host: 'h', identityFile: "/keys/bob's key" }), `ssh -i '/keys/bob''s key'`);
+        assert.strictEqual(buildSshCommand({ host: 'h', sshOptions: ['SetEnv=A="b c"'] }), `ssh -o 'SetEnv=A="b c"'`);
+        assert.strictEqual(getRemoteLocation({ host: 'h', user: 'u' }, '~/site'), 'u@h:site');
+        assert.strictEqual(getRemoteLocation({ host: 'root@h', user: 'u' }, '/srv'), 'root@h:/srv');
+    });
+});